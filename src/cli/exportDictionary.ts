@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { DICTIONARY_FORMATS, DictionaryFormat } from '../dictionary';
+import { exportDataDictionary } from '../tools/metadata';
+
+const USAGE = `Usage: connectcloud-mcp-server export-dictionary --catalog <name> [options]
+
+Export the tables and columns of a catalog or schema as a data dictionary.
+
+Options:
+  --catalog <name>   Catalog (connection) to export (required)
+  --schema <name>    Only export this schema
+  --format <format>  ${DICTIONARY_FORMATS.join(', ')} (default markdown)
+  --output <file>    Write to a file instead of standard output
+  --help             Show this help
+
+Credentials are read from CDATA_USERNAME and CDATA_PAT.`;
+
+/**
+ * Run the `export-dictionary` command
+ * @param args Command line arguments after the command name
+ * @returns The process exit code
+ */
+export async function runExportDictionary(args: string[]): Promise<number> {
+  let values: {
+    catalog?: string;
+    schema?: string;
+    format?: string;
+    output?: string;
+    help?: boolean;
+  };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        catalog: { type: 'string' },
+        schema: { type: 'string' },
+        format: { type: 'string' },
+        output: { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    }));
+  } catch (err: any) {
+    process.stderr.write(`${err.message}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  const format = (values.format ?? 'markdown') as DictionaryFormat;
+  if (!values.catalog || !DICTIONARY_FORMATS.includes(format)) {
+    process.stderr.write(
+      `${values.catalog ? `Unknown format: ${values.format}` : 'Missing --catalog'}\n\n${USAGE}\n`,
+    );
+    return 2;
+  }
+
+  const response = await exportDataDictionary(values.catalog, values.schema, format);
+  if (response.error || !response.result) {
+    process.stderr.write(`Error: ${response.error?.message ?? 'No result'}\n`);
+    return 1;
+  }
+
+  const { document, tables, errors } = response.result;
+  for (const [part, message] of Object.entries(errors ?? {})) {
+    process.stderr.write(`Warning: could not load ${part}: ${message}\n`);
+  }
+  if (values.output) {
+    fs.writeFileSync(values.output, document.endsWith('\n') ? document : `${document}\n`);
+    process.stderr.write(`Wrote ${tables} tables to ${values.output}\n`);
+  } else {
+    process.stdout.write(document.endsWith('\n') ? document : `${document}\n`);
+  }
+  return 0;
+}
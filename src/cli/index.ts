@@ -0,0 +1 @@
+export { runExportDictionary } from './exportDictionary';
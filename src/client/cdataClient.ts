@@ -0,0 +1,426 @@
+import { CDATA_API_URL } from '../tools/config';
+import { abortError, raceSignal } from '../utils/abort';
+import { debug, warn } from '../utils/logger';
+import { getRequestContext, RequestCredentials } from '../utils/requestContext';
+import { credentialsIdentity, MetadataCache, MetadataScope } from './metadataCache';
+import {
+  CatalogsResponse,
+  CDataErrorBody,
+  CDataResponse,
+  ColumnsResponse,
+  ExecRequest,
+  ExecResponse,
+  ForeignKeysResponse,
+  IndexesResponse,
+  PrimaryKeysResponse,
+  ProcedureParametersResponse,
+  ProceduresResponse,
+  QueryRequest,
+  QueryResponse,
+  SchemasResponse,
+  TablesResponse,
+} from './types';
+
+export type CDataCredentials = RequestCredentials;
+
+export interface CDataClientOptions {
+  baseUrl?: string;
+  /** Number of retries after the first attempt */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled on every subsequent attempt */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay, including Retry-After */
+  maxDelayMs?: number;
+  /**
+   * Resolves the credentials used for each request. Defaults to the credentials
+   * of the current request context, then to the environment.
+   */
+  credentials?: () => CDataCredentials;
+  /**
+   * Resolves the signal that abandons a request. Defaults to the signal of the
+   * current request context, which aborts on client cancellation and timeouts.
+   */
+  signal?: () => AbortSignal | undefined;
+  /** Cache for metadata responses; metadata is always fetched when omitted */
+  cache?: MetadataCache;
+}
+
+interface RequestOptions {
+  params?: Record<string, string | undefined>;
+  body?: unknown;
+  /**
+   * Whether the request can be safely repeated after the upstream may have
+   * processed it. Non-idempotent requests are only retried when the server
+   * explicitly refused them (429/503) and never after a network failure.
+   */
+  idempotent?: boolean;
+  /**
+   * Send the request without the caller's signal, for loads shared by several
+   * requests that must not be abandoned when one of them is
+   */
+  detached?: boolean;
+}
+
+/**
+ * Error raised for any failed call to the Connect Cloud API
+ */
+export class CDataApiError extends Error {
+  readonly status?: number;
+  readonly code?: string | number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string | number; retryable?: boolean; cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = 'CDataApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.retryable = options.retryable ?? false;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const REFUSED_STATUSES = new Set([429, 503]);
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP-date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Client for the CData Connect Cloud REST API. Every tool goes through this
+ * class so authentication, retries and error handling live in one place.
+ */
+export class CDataClient {
+  private readonly baseUrl: string;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly credentials: () => CDataCredentials;
+  private readonly signal: () => AbortSignal | undefined;
+  private readonly cache?: MetadataCache;
+
+  constructor(options: CDataClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? CDATA_API_URL;
+    this.maxRetries = options.maxRetries ?? envInt('CDATA_MAX_RETRIES', 3);
+    this.baseDelayMs = options.baseDelayMs ?? envInt('CDATA_RETRY_BASE_DELAY_MS', 500);
+    this.maxDelayMs = options.maxDelayMs ?? envInt('CDATA_RETRY_MAX_DELAY_MS', 10000);
+    this.credentials =
+      options.credentials ??
+      (() =>
+        getRequestContext()?.credentials ?? {
+          username: process.env.CDATA_USERNAME,
+          pat: process.env.CDATA_PAT,
+        });
+    this.signal = options.signal ?? (() => getRequestContext()?.signal);
+    this.cache = options.cache;
+  }
+
+  getCatalogs(): Promise<CatalogsResponse> {
+    return this.metadata('/catalogs', {});
+  }
+
+  getSchemas(catalogName?: string): Promise<SchemasResponse> {
+    return this.metadata('/schemas', { catalogName });
+  }
+
+  getTables(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+  ): Promise<TablesResponse> {
+    return this.metadata('/tables', { catalogName, schemaName, tableName });
+  }
+
+  getColumns(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+    columnName?: string,
+  ): Promise<ColumnsResponse> {
+    return this.metadata('/columns', { catalogName, schemaName, tableName, columnName });
+  }
+
+  getPrimaryKeys(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+  ): Promise<PrimaryKeysResponse> {
+    return this.metadata('/primaryKeys', { catalogName, schemaName, tableName });
+  }
+
+  getImportedKeys(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+  ): Promise<ForeignKeysResponse> {
+    return this.metadata('/importedKeys', { catalogName, schemaName, tableName });
+  }
+
+  getExportedKeys(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+  ): Promise<ForeignKeysResponse> {
+    return this.metadata('/exportedKeys', { catalogName, schemaName, tableName });
+  }
+
+  getIndexes(
+    catalogName?: string,
+    schemaName?: string,
+    tableName?: string,
+    indexName?: string,
+  ): Promise<IndexesResponse> {
+    return this.metadata('/indexes', { catalogName, schemaName, tableName, indexName });
+  }
+
+  getProcedures(
+    catalogName?: string,
+    schemaName?: string,
+    procedureName?: string,
+  ): Promise<ProceduresResponse> {
+    return this.metadata('/procedures', { catalogName, schemaName, procedureName });
+  }
+
+  getProcedureParameters(
+    catalogName?: string,
+    schemaName?: string,
+    procedureName?: string,
+    paramName?: string,
+  ): Promise<ProcedureParametersResponse> {
+    return this.metadata('/procedureParameters', {
+      catalogName,
+      schemaName,
+      procedureName,
+      paramName,
+    });
+  }
+
+  query(request: QueryRequest): Promise<QueryResponse> {
+    return this.request('POST', '/query', { body: request, idempotent: false });
+  }
+
+  exec(request: ExecRequest): Promise<ExecResponse> {
+    return this.request('POST', '/exec', { body: request, idempotent: false });
+  }
+
+  /**
+   * Drop the cached metadata of the current caller for a catalog or schema, or
+   * all of it when no scope is given. Other users' entries are kept.
+   * @returns The number of cached responses dropped
+   */
+  invalidateMetadata(scope: MetadataScope = {}): number {
+    return this.cache?.invalidate(scope, this.credentials()) ?? 0;
+  }
+
+  /**
+   * Hash of the current caller's credentials, for keeping data saved on their
+   * behalf apart from other users'
+   */
+  callerIdentity(): string {
+    return credentialsIdentity(this.credentials());
+  }
+
+  /**
+   * GET a metadata endpoint, through the cache when one is configured
+   */
+  private metadata<T extends CDataResponse<any>>(
+    path: string,
+    params: Record<string, string | undefined>,
+  ): Promise<T> {
+    if (!this.cache?.enabled) {
+      return this.request('GET', path, { params });
+    }
+    const signal = this.signal();
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+    // Concurrent callers share one load, so it runs without the first caller's
+    // signal; each caller only stops waiting for it
+    const key = this.cache.key(this.credentials(), path, params);
+    const loaded = this.cache.getOrLoad(
+      key,
+      { catalogName: params.catalogName, schemaName: params.schemaName },
+      () => this.request<T>('GET', path, { params, detached: true }),
+    );
+    return raceSignal(loaded, signal);
+  }
+
+  private buildUrl(path: string, params?: Record<string, string | undefined>): string {
+    let url = `${this.baseUrl}${path}`;
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params ?? {})) {
+      if (value) search.append(key, value);
+    }
+    const queryString = search.toString();
+    if (queryString) {
+      url += `?${queryString}`;
+    }
+    return url;
+  }
+
+  private authorization(): string {
+    const { username, pat } = this.credentials();
+    return 'Basic ' + Buffer.from(`${username}:${pat}`).toString('base64');
+  }
+
+  private backoff(attempt: number): number {
+    const exponential = this.baseDelayMs * 2 ** attempt;
+    // Full jitter keeps concurrent sessions from retrying in lockstep
+    return Math.min(Math.random() * exponential, this.maxDelayMs);
+  }
+
+  private async request<T extends CDataResponse<any>>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const signal = options.detached ? undefined : this.signal();
+    try {
+      return await this.send<T>(method, path, options, signal);
+    } catch (err) {
+      // fetch and body reads reject with a bare AbortError; report why instead
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
+      throw err;
+    }
+  }
+
+  private async send<T extends CDataResponse<any>>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: RequestOptions,
+    signal: AbortSignal | undefined,
+  ): Promise<T> {
+    const url = this.buildUrl(path, options.params);
+    const idempotent = options.idempotent ?? method === 'GET';
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: this.authorization(),
+          },
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal,
+        });
+      } catch (err: any) {
+        if (signal?.aborted) {
+          throw err;
+        }
+        const failure = new CDataApiError(`Network error calling ${path}: ${err.message}`, {
+          retryable: idempotent,
+          cause: err,
+        });
+        if (failure.retryable && attempt < this.maxRetries) {
+          const delay = this.backoff(attempt);
+          warn(`${failure.message}; retrying in ${Math.round(delay)}ms`);
+          await sleep(delay, signal);
+          continue;
+        }
+        throw failure;
+      }
+
+      if (response.ok) {
+        let data: T & CDataErrorBody;
+        try {
+          data = (await response.json()) as T & CDataErrorBody;
+        } catch (err: any) {
+          if (signal?.aborted) {
+            throw err;
+          }
+          throw new CDataApiError(`Invalid response from ${path}: ${err.message}`, {
+            status: response.status,
+            cause: err,
+          });
+        }
+        if (data && data.error) {
+          throw new CDataApiError(data.error.message || 'Unknown Connect Cloud error', {
+            status: response.status,
+            code: data.error.code,
+          });
+        }
+        return data;
+      }
+
+      const failure = await this.toError(response, idempotent);
+      if (failure.retryable && attempt < this.maxRetries) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        if (retryAfterMs !== undefined && retryAfterMs > this.maxDelayMs) {
+          // Retrying before the server is ready would only use up the remaining attempts
+          throw new CDataApiError(
+            `${failure.message} (Connect Cloud asked to retry after ${Math.ceil(retryAfterMs / 1000)}s)`,
+            { status: failure.status, code: failure.code, retryable: true },
+          );
+        }
+        const delay = retryAfterMs ?? this.backoff(attempt);
+        warn(
+          `${method} ${path} failed with ${response.status}; retrying in ${Math.round(delay)}ms`,
+        );
+        await sleep(delay, signal);
+        continue;
+      }
+      throw failure;
+    }
+  }
+
+  private async toError(response: Response, idempotent: boolean): Promise<CDataApiError> {
+    let message = response.statusText || `HTTP ${response.status}`;
+    let code: string | number | undefined;
+    try {
+      const body = (await response.json()) as CDataErrorBody;
+      if (body?.error?.message) {
+        message = body.error.message;
+        code = body.error.code;
+      }
+    } catch {
+      debug(`Connect Cloud returned a non-JSON error body for status ${response.status}`);
+    }
+
+    const retryable = idempotent
+      ? RETRYABLE_STATUSES.has(response.status)
+      : REFUSED_STATUSES.has(response.status);
+    return new CDataApiError(`Error: ${message}`, { status: response.status, code, retryable });
+  }
+}
@@ -0,0 +1,19 @@
+import { CDataClient } from './cdataClient';
+import { MetadataCache } from './metadataCache';
+
+export { CDataClient, CDataApiError } from './cdataClient';
+export type { CDataClientOptions, CDataCredentials } from './cdataClient';
+export { MetadataCache } from './metadataCache';
+export type { MetadataCacheOptions, MetadataScope } from './metadataCache';
+export { toRecords, resultSetToRecords } from './records';
+export * from './types';
+
+/**
+ * Metadata cache shared by every session, configured from the environment
+ */
+export const metadataCache = new MetadataCache();
+
+/**
+ * Shared client used by every tool
+ */
+export const cdataClient = new CDataClient({ cache: metadataCache });
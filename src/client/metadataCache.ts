@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { debug, warn } from '../utils/logger';
+import { RequestCredentials } from '../utils/requestContext';
+
+export interface MetadataCacheOptions {
+  /** How long an entry stays valid; 0 disables the cache */
+  ttlMs?: number;
+  /** Maximum number of entries; the least recently used entry is evicted first */
+  maxEntries?: number;
+  /** File the cache is loaded from at startup and saved to after changes */
+  persistPath?: string;
+}
+
+/**
+ * Catalog and schema an entry was fetched for, used to invalidate it
+ */
+export interface MetadataScope {
+  catalogName?: string;
+  schemaName?: string;
+}
+
+interface CacheEntry extends MetadataScope {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface PersistedCache {
+  version: 1;
+  entries: [string, CacheEntry][];
+}
+
+// Delay between a change and the write to disk, so bursts of lookups cause one write
+const PERSIST_DELAY_MS = 1000;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Hash of a set of credentials, used to keep each user's cached data apart
+ * without writing their token anywhere
+ */
+export function credentialsIdentity(credentials: RequestCredentials): string {
+  return createHash('sha256')
+    .update(`${credentials.username ?? ''}:${credentials.pat ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * In-process LRU cache for Connect Cloud metadata responses. Entries are keyed
+ * by a hash of the caller's credentials, so users never share entries and no
+ * token is ever written to disk.
+ */
+export class MetadataCache {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly persistPath?: string;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<unknown>>();
+  // Bumped by every invalidation; loads started before it are not cached
+  private generation = 0;
+  private persistTimer?: NodeJS.Timeout;
+
+  constructor(options: MetadataCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? envInt('METADATA_CACHE_TTL_MS', 300000);
+    this.maxEntries = options.maxEntries ?? envInt('METADATA_CACHE_MAX_ENTRIES', 1000);
+    this.persistPath = options.persistPath ?? (process.env.METADATA_CACHE_FILE || undefined);
+
+    if (this.enabled && this.persistPath) {
+      this.load(this.persistPath);
+      process.on('exit', () => this.flush());
+    }
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Build the cache key of a metadata request
+   * @param credentials Credentials the request is sent with
+   * @param path API path of the request
+   * @param params Query parameters of the request
+   */
+  key(
+    credentials: RequestCredentials,
+    path: string,
+    params: Record<string, string | undefined> = {},
+  ): string {
+    const sorted = Object.entries(params)
+      .filter(([, value]) => value)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${credentialsIdentity(credentials)} ${path} ${JSON.stringify(sorted)}`;
+  }
+
+  /**
+   * Return the cached value for a key, or load it and cache the result.
+   * Concurrent loads of the same key share one request; failures are not cached.
+   */
+  async getOrLoad<T>(key: string, scope: MetadataScope, load: () => Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return load();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Move the entry to the end so the map stays in least recently used order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.value as T;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const generation = this.generation;
+    const promise: Promise<T> = load()
+      .then(value => {
+        // A result fetched before an invalidation may already be stale
+        if (this.generation === generation) this.set(key, scope, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === promise) this.pending.delete(key);
+      });
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Drop the entries of a catalog or schema, or every entry when no scope is given.
+   * Entries fetched without a catalog or schema filter may contain the scope and
+   * are dropped as well. Loads still in flight are not cached when they finish.
+   * @param scope Catalog and schema to drop
+   * @param credentials Only drop the entries of this user; every user's when omitted
+   * @returns The number of entries dropped
+   */
+  invalidate(scope: MetadataScope = {}, credentials?: RequestCredentials): number {
+    const owner = credentials && `${credentialsIdentity(credentials)} `;
+    this.generation++;
+    for (const key of this.pending.keys()) {
+      if (!owner || key.startsWith(owner)) this.pending.delete(key);
+    }
+
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (owner && !key.startsWith(owner)) continue;
+      const catalogMatches =
+        !scope.catalogName || !entry.catalogName || sameName(entry.catalogName, scope.catalogName);
+      const schemaMatches =
+        !scope.schemaName || !entry.schemaName || sameName(entry.schemaName, scope.schemaName);
+      if (catalogMatches && schemaMatches) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    if (count > 0) {
+      this.schedulePersist();
+    }
+    return count;
+  }
+
+  /**
+   * Write the cache to disk now if persistence is enabled
+   */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    if (!this.persistPath) {
+      return;
+    }
+    const now = Date.now();
+    const persisted: PersistedCache = {
+      version: 1,
+      entries: [...this.entries].filter(([, entry]) => entry.expiresAt > now),
+    };
+    try {
+      fs.writeFileSync(this.persistPath, JSON.stringify(persisted), { mode: 0o600 });
+    } catch (err: any) {
+      warn(`Could not write metadata cache to ${this.persistPath}: ${err.message}`);
+    }
+  }
+
+  private set(key: string, scope: MetadataScope, value: unknown): void {
+    this.entries.delete(key);
+    this.entries.set(key, { ...scope, value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    this.schedulePersist();
+  }
+
+  private schedulePersist(): void {
+    if (!this.persistPath || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private load(path: string): void {
+    if (!fs.existsSync(path)) {
+      return;
+    }
+    try {
+      const persisted = JSON.parse(fs.readFileSync(path, 'utf8')) as PersistedCache;
+      if (persisted.version !== 1) {
+        warn(`Ignoring metadata cache file ${path} with unknown version ${persisted.version}`);
+        return;
+      }
+      const now = Date.now();
+      for (const [key, entry] of persisted.entries.slice(-this.maxEntries)) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      debug(`Loaded ${this.entries.size} metadata cache entries from ${path}`);
+    } catch (err: any) {
+      warn(`Could not read metadata cache from ${path}: ${err.message}`);
+    }
+  }
+}
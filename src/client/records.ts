@@ -0,0 +1,22 @@
+import { CDataResponse, ResultSet } from './types';
+
+/**
+ * Convert a result set's positional rows into objects keyed by column name
+ */
+export function resultSetToRecords<TRow extends object>(resultSet: ResultSet<TRow>): TRow[] {
+  const names = resultSet.schema.map(column => column.columnName);
+  return resultSet.rows.map(row => {
+    const record: Record<string, unknown> = {};
+    names.forEach((name, index) => {
+      record[name] = row[index];
+    });
+    return record as TRow;
+  });
+}
+
+/**
+ * Convert every result set of a response into typed row objects
+ */
+export function toRecords<TRow extends object>(response: CDataResponse<TRow>): TRow[] {
+  return (response.results ?? []).flatMap(resultSet => resultSetToRecords(resultSet));
+}
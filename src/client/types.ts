@@ -0,0 +1,181 @@
+/**
+ * Column description returned in the `schema` section of every Connect Cloud result set
+ */
+export interface ColumnInfo {
+  catalogName?: string;
+  schemaName?: string;
+  tableName?: string;
+  columnName: string;
+  columnLabel?: string;
+  dataType?: number;
+  dataTypeName?: string;
+  columnSize?: number;
+  numericPrecision?: number;
+  numericScale?: number;
+  isNullable?: boolean;
+  isReadOnly?: boolean;
+  isKey?: boolean;
+}
+
+/**
+ * A single result set. `TRow` describes the shape of a row once it has been
+ * converted to an object with `toRecords`; each cell holds one of its values.
+ */
+export interface ResultSet<TRow extends object = Record<string, unknown>> {
+  schema: ColumnInfo[];
+  rows: TRow[keyof TRow][][];
+  affectedRows?: number;
+}
+
+/**
+ * Body of a successful Connect Cloud API response
+ */
+export interface CDataResponse<TRow extends object = Record<string, unknown>> {
+  results: ResultSet<TRow>[];
+}
+
+/**
+ * Error payload Connect Cloud places in the response body on failure
+ */
+export interface CDataErrorBody {
+  error?: {
+    code?: string | number;
+    message?: string;
+  };
+}
+
+/**
+ * Parameter value sent to `/query` and `/exec`
+ */
+export interface CDataParameter {
+  dataType: number;
+  direction?: number;
+  value?: any;
+}
+
+export type CDataParameters = Record<string, CDataParameter>;
+
+export interface QueryRequest {
+  query: string;
+  defaultSchema?: string;
+  schemaOnly?: boolean;
+  parameters?: CDataParameters;
+}
+
+export interface ExecRequest {
+  procedure: string;
+  defaultSchema?: string;
+  parameters?: CDataParameters;
+}
+
+export interface CatalogRow {
+  TABLE_CATALOG: string;
+}
+
+export interface SchemaRow {
+  TABLE_CATALOG: string;
+  TABLE_SCHEMA: string;
+}
+
+export interface TableRow {
+  TABLE_CATALOG: string;
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  TABLE_TYPE?: string;
+  REMARKS?: string | null;
+}
+
+export interface ColumnRow {
+  TABLE_CATALOG: string;
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  DATA_TYPE?: number;
+  TYPE_NAME?: string;
+  COLUMN_SIZE?: number | null;
+  DECIMAL_DIGITS?: number | null;
+  NUMERIC_PRECISION?: number | null;
+  IS_NULLABLE?: boolean | string;
+  ORDINAL_POSITION?: number;
+  IS_AUTOINCREMENT?: boolean | string;
+  IS_GENERATEDCOLUMN?: boolean | string;
+  COLUMN_DEFAULT?: string | null;
+  REMARKS?: string | null;
+}
+
+export interface PrimaryKeyRow {
+  TABLE_CATALOG: string;
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  KEY_SEQ?: number;
+  PK_NAME?: string | null;
+}
+
+/**
+ * Row shape shared by `/importedKeys` and `/exportedKeys`
+ */
+export interface ForeignKeyRow {
+  PKTABLE_CATALOG: string;
+  PKTABLE_SCHEMA: string;
+  PKTABLE_NAME: string;
+  PKCOLUMN_NAME: string;
+  FKTABLE_CATALOG: string;
+  FKTABLE_SCHEMA: string;
+  FKTABLE_NAME: string;
+  FKCOLUMN_NAME: string;
+  KEY_SEQ?: number;
+  UPDATE_RULE?: number | null;
+  DELETE_RULE?: number | null;
+  FK_NAME?: string | null;
+  PK_NAME?: string | null;
+}
+
+export interface IndexRow {
+  TABLE_CATALOG: string;
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  INDEX_NAME: string | null;
+  COLUMN_NAME: string | null;
+  NON_UNIQUE?: boolean | string;
+  TYPE?: number | string;
+  ORDINAL_POSITION?: number;
+  SORT_ORDER?: string | null;
+  FILTER_CONDITION?: string | null;
+}
+
+export interface ProcedureRow {
+  PROCEDURE_CATALOG: string;
+  PROCEDURE_SCHEMA: string;
+  PROCEDURE_NAME: string;
+  PROCEDURE_TYPE?: number | string;
+  REMARKS?: string | null;
+}
+
+export interface ProcedureParameterRow {
+  PROCEDURE_CATALOG: string;
+  PROCEDURE_SCHEMA: string;
+  PROCEDURE_NAME: string;
+  COLUMN_NAME: string;
+  COLUMN_TYPE?: number;
+  DATA_TYPE?: number;
+  TYPE_NAME?: string;
+  PRECISION?: number | null;
+  LENGTH?: number | null;
+  SCALE?: number | null;
+  IS_NULLABLE?: boolean | string;
+  ORDINAL_POSITION?: number;
+  REMARKS?: string | null;
+}
+
+export type CatalogsResponse = CDataResponse<CatalogRow>;
+export type SchemasResponse = CDataResponse<SchemaRow>;
+export type TablesResponse = CDataResponse<TableRow>;
+export type ColumnsResponse = CDataResponse<ColumnRow>;
+export type PrimaryKeysResponse = CDataResponse<PrimaryKeyRow>;
+export type ForeignKeysResponse = CDataResponse<ForeignKeyRow>;
+export type IndexesResponse = CDataResponse<IndexRow>;
+export type ProceduresResponse = CDataResponse<ProcedureRow>;
+export type ProcedureParametersResponse = CDataResponse<ProcedureParameterRow>;
+export type QueryResponse = CDataResponse;
+export type ExecResponse = CDataResponse;
@@ -0,0 +1,218 @@
+import { cdataClient, toRecords } from '../client';
+import { warn } from '../utils/logger';
+import { editDistance } from '../utils/textMatching';
+
+const COMPLETION_CACHE_TTL_MS = parseInt(process.env.COMPLETION_CACHE_TTL_MS || '60000');
+const COMPLETION_CACHE_MAX_ENTRIES = parseInt(process.env.COMPLETION_CACHE_MAX_ENTRIES || '500');
+
+/**
+ * Arguments that can be completed from Connect Cloud metadata
+ */
+export type CompletableArgument =
+  | 'catalogName'
+  | 'schemaName'
+  | 'tableName'
+  | 'columnName'
+  | 'procedureName';
+
+/**
+ * Arguments already chosen by the user, as sent in the `context` of a completion request
+ */
+export type CompletionContext = { arguments?: Record<string, string> };
+
+interface CachedValues {
+  values: string[];
+  expiresAt: number;
+}
+
+// Insertion order doubles as age order, so the first entry is the oldest
+const cache = new Map<string, CachedValues>();
+
+/**
+ * Read an argument from the completion context. Resource template variables
+ * are named without the `Name` suffix, so both spellings are accepted.
+ */
+function contextArgument(context: CompletionContext | undefined, name: string): string | undefined {
+  const args = context?.arguments ?? {};
+  const value = args[`${name}Name`] ?? args[name];
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Hash of the caller's credentials, which scopes cached suggestions
+ */
+function currentUser(): string {
+  return cdataClient.callerIdentity();
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/**
+ * Fetch the candidate values of an argument, scoped by the arguments already chosen
+ */
+async function fetchCandidates(
+  argument: CompletableArgument,
+  catalog?: string,
+  schema?: string,
+  table?: string,
+): Promise<string[]> {
+  switch (argument) {
+    case 'catalogName':
+      return toRecords(await cdataClient.getCatalogs()).map(row => row.TABLE_CATALOG);
+    case 'schemaName':
+      return toRecords(await cdataClient.getSchemas(catalog)).map(row => row.TABLE_SCHEMA);
+    case 'tableName':
+      return toRecords(await cdataClient.getTables(catalog, schema)).map(row => row.TABLE_NAME);
+    case 'columnName':
+      if (!table) {
+        // Listing every column of every table is too expensive for a completion
+        return [];
+      }
+      return toRecords(await cdataClient.getColumns(catalog, schema, table)).map(
+        row => row.COLUMN_NAME,
+      );
+    case 'procedureName':
+      return toRecords(await cdataClient.getProcedures(catalog, schema)).map(
+        row => row.PROCEDURE_NAME,
+      );
+  }
+}
+
+/**
+ * Get the candidate values of an argument from the cache, or from Connect Cloud
+ * when they are missing or expired. Cache keys include a hash of the caller's
+ * credentials so users never see each other's connections. The SDK calls
+ * completers without the request's `extra`; the caller's credentials come from
+ * the context the transport runs each request in.
+ */
+async function candidates(
+  argument: CompletableArgument,
+  context?: CompletionContext,
+): Promise<string[]> {
+  const catalog = contextArgument(context, 'catalog');
+  const schema = contextArgument(context, 'schema');
+  const table = contextArgument(context, 'table');
+  const key = JSON.stringify([currentUser(), argument, catalog, schema, table]);
+
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.values;
+  }
+
+  const values = unique(await fetchCandidates(argument, catalog, schema, table)).sort((a, b) =>
+    a.localeCompare(b),
+  );
+  cache.delete(key);
+  cache.set(key, { values, expiresAt: now + COMPLETION_CACHE_TTL_MS });
+  while (cache.size > COMPLETION_CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return values;
+}
+
+/**
+ * Drop the caller's cached suggestions for a catalog or schema, or all of them
+ * when no scope is given. Other users' suggestions are kept.
+ * @returns The number of suggestion lists dropped
+ */
+export function clearCompletionCache(catalogName?: string, schemaName?: string): number {
+  const user = currentUser();
+  let count = 0;
+  for (const key of cache.keys()) {
+    const [owner, , catalog, schema] = JSON.parse(key) as (string | null)[];
+    if (owner !== user) continue;
+    const catalogMatches =
+      !catalogName || !catalog || catalog.toLowerCase() === catalogName.toLowerCase();
+    const schemaMatches =
+      !schemaName || !schema || schema.toLowerCase() === schemaName.toLowerCase();
+    if (catalogMatches && schemaMatches) {
+      cache.delete(key);
+      count++;
+    }
+  }
+  return count;
+}
+
+function isSubsequence(value: string, candidate: string): boolean {
+  let index = 0;
+  for (const ch of candidate) {
+    if (ch === value[index]) index++;
+    if (index === value.length) return true;
+  }
+  return index === value.length;
+}
+
+/**
+ * Rank how well a candidate matches what the user typed
+ * @returns 0 for a prefix match, 1 for a substring, 2 for a subsequence, 3 for
+ * a near miss (a typo in a typed prefix of three or more characters), or
+ * undefined when it does not match
+ */
+function matchRank(value: string, candidate: string): number | undefined {
+  const typed = value.toLowerCase();
+  const name = candidate.toLowerCase();
+  if (name.startsWith(typed)) return 0;
+  if (name.includes(typed)) return 1;
+  if (isSubsequence(typed, name)) return 2;
+  if (typed.length < 3) return undefined;
+
+  const allowed = Math.max(1, Math.floor(typed.length / 4));
+  const distance = Math.min(
+    editDistance(typed, name.slice(0, typed.length)),
+    editDistance(typed, name.slice(0, typed.length + 1)),
+    editDistance(typed, name.slice(0, Math.max(0, typed.length - 1))),
+  );
+  return distance <= allowed ? 3 : undefined;
+}
+
+/**
+ * Filter candidates by what the user typed: prefix matches first, then
+ * substring, subsequence and near-miss matches
+ */
+export function filterCompletions(value: string, values: string[]): string[] {
+  if (!value) {
+    return values;
+  }
+  return values
+    .map(candidate => ({ candidate, rank: matchRank(value, candidate) }))
+    .filter((match): match is { candidate: string; rank: number } => match.rank !== undefined)
+    .sort((a, b) => a.rank - b.rank || a.candidate.localeCompare(b.candidate))
+    .map(match => match.candidate);
+}
+
+/**
+ * Complete a catalog, schema, table, column or procedure name
+ * @param argument The argument being completed
+ * @param value What the user has typed so far
+ * @param context Arguments already chosen, used to scope the suggestions
+ */
+export async function completeArgument(
+  argument: CompletableArgument,
+  value: string,
+  context?: CompletionContext,
+): Promise<string[]> {
+  try {
+    return filterCompletions(value, await candidates(argument, context));
+  } catch (err: any) {
+    warn(`Could not complete ${argument}: ${err.message}`);
+    return [];
+  }
+}
+
+/**
+ * Build a completion callback for one argument, in the form expected by
+ * resource templates and `completable()` prompt arguments
+ */
+export function argumentCompleter(argument: CompletableArgument) {
+  return (value: string, context?: CompletionContext) => completeArgument(argument, value, context);
+}
@@ -0,0 +1,7 @@
+export {
+  argumentCompleter,
+  clearCompletionCache,
+  completeArgument,
+  filterCompletions,
+} from './argumentCompletions';
+export type { CompletableArgument, CompletionContext } from './argumentCompletions';
@@ -0,0 +1,188 @@
+import { isInternalRelationship, ModelRelationship, ModelTable, SchemaModel } from '../schema';
+import { fallbackType, isIntegerColumn, mapColumnType, SqlDialect } from './typeMapping';
+
+/**
+ * A column whose source type is not in the type mapping table
+ */
+export interface UnmappedType {
+  table: string;
+  column: string;
+  type: string;
+}
+
+export interface DdlOptions {
+  /** Schema to create the tables in; unqualified names when omitted */
+  targetSchema?: string;
+  /** Add FOREIGN KEY constraints between the generated tables (default true) */
+  foreignKeys?: boolean;
+  /** Add CREATE INDEX statements (default true) */
+  indexes?: boolean;
+}
+
+export interface GeneratedDdl {
+  ddl: string;
+  /** Tables in creation order, referenced tables first */
+  tables: string[];
+  unmappedTypes: UnmappedType[];
+  /** Keys, indexes and identities that could not be carried over */
+  warnings: string[];
+}
+
+function quote(name: string, dialect: SqlDialect): string {
+  switch (dialect) {
+    case 'mysql':
+      return `\`${name.replace(/`/g, '``')}\``;
+    case 'sqlserver':
+      return `[${name.replace(/]/g, ']]')}]`;
+    default:
+      return `"${name.replace(/"/g, '""')}"`;
+  }
+}
+
+/**
+ * Order tables so that every table comes after the tables its foreign keys
+ * reference. Tables in a reference cycle keep their original order.
+ */
+function creationOrder(model: SchemaModel, relationships: ModelRelationship[]): ModelTable[] {
+  const ordered: ModelTable[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const tables = new Map(model.tables.map(table => [table.name, table]));
+
+  const visit = (table: ModelTable) => {
+    if (done.has(table.name) || visiting.has(table.name)) return;
+    visiting.add(table.name);
+    for (const relationship of relationships) {
+      const referenced = tables.get(relationship.referencedTable);
+      if (relationship.table === table.name && referenced) visit(referenced);
+    }
+    visiting.delete(table.name);
+    done.add(table.name);
+    ordered.push(table);
+  };
+  model.tables.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Generate CREATE TABLE and CREATE INDEX statements for the tables of a schema
+ * model. Columns whose type cannot be mapped use the dialect's text type and
+ * are listed in `unmappedTypes`. Foreign keys are only created between tables
+ * of the model.
+ */
+export function renderDdl(
+  model: SchemaModel,
+  dialect: SqlDialect,
+  options: DdlOptions = {},
+): GeneratedDdl {
+  const q = (name: string) => quote(name, dialect);
+  const tableName = (name: string) =>
+    options.targetSchema ? `${q(options.targetSchema)}.${q(name)}` : q(name);
+
+  const unmappedTypes: UnmappedType[] = [];
+  const warnings: string[] = [];
+  const relationships: ModelRelationship[] = [];
+  if (options.foreignKeys !== false) {
+    for (const relationship of model.relationships) {
+      if (isInternalRelationship(model, relationship)) {
+        relationships.push(relationship);
+      } else {
+        warnings.push(
+          `Foreign key ${relationship.name ?? relationship.columns.join(', ')} of ${relationship.table} ` +
+            `references ${relationship.referencedTable}, which is not generated`,
+        );
+      }
+    }
+  }
+
+  const statements: string[] = [];
+  // Foreign keys of tables in a reference cycle, added once all tables exist
+  const deferred: string[] = [];
+  const created = new Set<string>();
+  const indexNames = new Set<string>();
+  const ordered = creationOrder(model, relationships);
+  for (const table of ordered) {
+    const lines: string[] = [];
+    // SQLite only supports auto-increment on an INTEGER PRIMARY KEY column
+    const inlineKey =
+      dialect === 'sqlite' &&
+      table.primaryKey.length === 1 &&
+      table.columns.some(
+        column =>
+          column.name === table.primaryKey[0] && column.autoIncrement && isIntegerColumn(column),
+      );
+
+    for (const column of table.columns) {
+      let type = mapColumnType(column, dialect);
+      if (!type) {
+        unmappedTypes.push({
+          table: table.name,
+          column: column.name,
+          type: column.type ?? String(column.dataType ?? 'unknown'),
+        });
+        type = fallbackType(dialect);
+      }
+
+      let definition = `${q(column.name)} ${type}`;
+      if (column.autoIncrement && isIntegerColumn(column)) {
+        if (dialect === 'postgresql') definition += ' GENERATED BY DEFAULT AS IDENTITY';
+        else if (dialect === 'mysql') definition += ' AUTO_INCREMENT';
+        else if (dialect === 'sqlserver') definition += ' IDENTITY(1,1)';
+        else if (dialect === 'snowflake') definition += ' AUTOINCREMENT';
+        else if (inlineKey) definition += ' PRIMARY KEY AUTOINCREMENT';
+        else warnings.push(`Auto-increment of ${table.name}.${column.name} is not supported`);
+      }
+      if (!column.nullable) definition += ' NOT NULL';
+      lines.push(definition);
+    }
+
+    if (table.primaryKey.length > 0 && !inlineKey) {
+      lines.push(`PRIMARY KEY (${table.primaryKey.map(q).join(', ')})`);
+    }
+    for (const relationship of relationships.filter(candidate => candidate.table === table.name)) {
+      const name = relationship.name ? `CONSTRAINT ${q(relationship.name)} ` : '';
+      const constraint =
+        `${name}FOREIGN KEY (${relationship.columns.map(q).join(', ')}) ` +
+        `REFERENCES ${tableName(relationship.referencedTable)} ` +
+        `(${relationship.referencedColumns.map(q).join(', ')})`;
+      const exists =
+        created.has(relationship.referencedTable) || relationship.referencedTable === table.name;
+      // SQLite cannot add constraints later, but does not check them on creation either
+      if (exists || dialect === 'sqlite') {
+        lines.push(constraint);
+      } else {
+        deferred.push(`ALTER TABLE ${tableName(table.name)} ADD ${constraint};`);
+      }
+    }
+    created.add(table.name);
+    statements.push(
+      `CREATE TABLE ${tableName(table.name)} (\n${lines.map(line => `  ${line}`).join(',\n')}\n);`,
+    );
+
+    if (options.indexes === false || !table.indexes?.length) continue;
+    if (dialect === 'snowflake') {
+      warnings.push(`Snowflake standard tables have no indexes; skipped those of ${table.name}`);
+      continue;
+    }
+    for (const index of table.indexes) {
+      // The primary key already has its own index
+      if (index.columns.join(',') === table.primaryKey.join(',')) continue;
+      if (index.columns.length === 0) continue;
+      // Index names are unique per schema in most dialects
+      let name = index.name;
+      if (indexNames.has(name.toLowerCase())) name = `${table.name}_${index.name}`;
+      indexNames.add(name.toLowerCase());
+      statements.push(
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${q(name)} ON ${tableName(table.name)} ` +
+          `(${index.columns.map(q).join(', ')});`,
+      );
+    }
+  }
+
+  return {
+    ddl: [...statements, ...deferred].join('\n\n'),
+    tables: ordered.map(table => table.name),
+    unmappedTypes,
+    warnings,
+  };
+}
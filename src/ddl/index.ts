@@ -0,0 +1,4 @@
+export { renderDdl } from './ddlGenerator';
+export type { DdlOptions, GeneratedDdl, UnmappedType } from './ddlGenerator';
+export { fallbackType, mapColumnType, SQL_DIALECTS } from './typeMapping';
+export type { SqlDialect } from './typeMapping';
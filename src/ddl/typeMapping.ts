@@ -0,0 +1,154 @@
+import { canonicalType, CanonicalType, ModelColumn } from '../schema';
+
+export const SQL_DIALECTS = ['postgresql', 'sqlite', 'mysql', 'sqlserver', 'snowflake'] as const;
+
+export type SqlDialect = (typeof SQL_DIALECTS)[number];
+
+type DialectTypes = Record<CanonicalType, (size?: number, scale?: number) => string>;
+
+/**
+ * A sized type such as VARCHAR(n), or `fallback` when the size is unknown or above `max`
+ */
+const sized = (name: string, fallback: string, max: number) => (size?: number) =>
+  size && size > 0 && size <= max ? `${name}(${size})` : fallback;
+
+function decimal(name: string, maxPrecision: number) {
+  return (size?: number, scale?: number) => {
+    if (!size || size <= 0) return name;
+    const precision = Math.min(size, maxPrecision);
+    return `${name}(${precision}, ${Math.min(scale ?? 0, precision)})`;
+  };
+}
+
+/**
+ * How each canonical type is written in each dialect
+ */
+const DIALECT_TYPES: Record<SqlDialect, DialectTypes> = {
+  postgresql: {
+    string: sized('VARCHAR', 'TEXT', 10485760),
+    char: sized('CHAR', 'TEXT', 10485760),
+    text: () => 'TEXT',
+    tinyint: () => 'SMALLINT',
+    smallint: () => 'SMALLINT',
+    integer: () => 'INTEGER',
+    bigint: () => 'BIGINT',
+    float: () => 'REAL',
+    double: () => 'DOUBLE PRECISION',
+    decimal: decimal('NUMERIC', 1000),
+    boolean: () => 'BOOLEAN',
+    date: () => 'DATE',
+    time: () => 'TIME',
+    timestamp: () => 'TIMESTAMP',
+    timestamptz: () => 'TIMESTAMPTZ',
+    uuid: () => 'UUID',
+    binary: () => 'BYTEA',
+    json: () => 'JSONB',
+  },
+  sqlite: {
+    string: () => 'TEXT',
+    char: () => 'TEXT',
+    text: () => 'TEXT',
+    tinyint: () => 'INTEGER',
+    smallint: () => 'INTEGER',
+    integer: () => 'INTEGER',
+    bigint: () => 'INTEGER',
+    float: () => 'REAL',
+    double: () => 'REAL',
+    decimal: () => 'NUMERIC',
+    boolean: () => 'INTEGER',
+    date: () => 'TEXT',
+    time: () => 'TEXT',
+    timestamp: () => 'TEXT',
+    timestamptz: () => 'TEXT',
+    uuid: () => 'TEXT',
+    binary: () => 'BLOB',
+    json: () => 'TEXT',
+  },
+  mysql: {
+    string: sized('VARCHAR', 'LONGTEXT', 16383),
+    char: sized('CHAR', 'LONGTEXT', 255),
+    text: () => 'LONGTEXT',
+    tinyint: () => 'TINYINT',
+    smallint: () => 'SMALLINT',
+    integer: () => 'INT',
+    bigint: () => 'BIGINT',
+    float: () => 'FLOAT',
+    double: () => 'DOUBLE',
+    decimal: decimal('DECIMAL', 65),
+    boolean: () => 'BOOLEAN',
+    date: () => 'DATE',
+    time: () => 'TIME',
+    timestamp: () => 'DATETIME(6)',
+    timestamptz: () => 'DATETIME(6)',
+    uuid: () => 'CHAR(36)',
+    binary: sized('VARBINARY', 'LONGBLOB', 65535),
+    json: () => 'JSON',
+  },
+  sqlserver: {
+    string: sized('NVARCHAR', 'NVARCHAR(MAX)', 4000),
+    char: sized('NCHAR', 'NVARCHAR(MAX)', 4000),
+    text: () => 'NVARCHAR(MAX)',
+    // SQL Server TINYINT is unsigned, so signed sources need SMALLINT
+    tinyint: () => 'SMALLINT',
+    smallint: () => 'SMALLINT',
+    integer: () => 'INT',
+    bigint: () => 'BIGINT',
+    float: () => 'REAL',
+    double: () => 'FLOAT',
+    decimal: decimal('DECIMAL', 38),
+    boolean: () => 'BIT',
+    date: () => 'DATE',
+    time: () => 'TIME',
+    timestamp: () => 'DATETIME2',
+    timestamptz: () => 'DATETIMEOFFSET',
+    uuid: () => 'UNIQUEIDENTIFIER',
+    binary: sized('VARBINARY', 'VARBINARY(MAX)', 8000),
+    json: () => 'NVARCHAR(MAX)',
+  },
+  snowflake: {
+    string: sized('VARCHAR', 'VARCHAR', 16777216),
+    char: sized('CHAR', 'VARCHAR', 16777216),
+    text: () => 'VARCHAR',
+    tinyint: () => 'SMALLINT',
+    smallint: () => 'SMALLINT',
+    integer: () => 'INTEGER',
+    bigint: () => 'BIGINT',
+    float: () => 'FLOAT',
+    double: () => 'DOUBLE',
+    decimal: decimal('NUMBER', 38),
+    boolean: () => 'BOOLEAN',
+    date: () => 'DATE',
+    time: () => 'TIME',
+    timestamp: () => 'TIMESTAMP_NTZ',
+    timestamptz: () => 'TIMESTAMP_TZ',
+    uuid: () => 'VARCHAR(36)',
+    binary: () => 'BINARY',
+    json: () => 'VARIANT',
+  },
+};
+
+/**
+ * Whether a column maps to an integer type that can carry an identity
+ */
+export function isIntegerColumn(column: ModelColumn): boolean {
+  return ['tinyint', 'smallint', 'integer', 'bigint'].includes(canonicalType(column) ?? '');
+}
+
+/**
+ * The type of a column in a dialect, or undefined when its source type is not
+ * in the mapping table
+ */
+export function mapColumnType(column: ModelColumn, dialect: SqlDialect): string | undefined {
+  const type = canonicalType(column);
+  if (!type) {
+    return undefined;
+  }
+  return DIALECT_TYPES[dialect][type](column.size, column.scale);
+}
+
+/**
+ * The type used for columns whose source type cannot be mapped
+ */
+export function fallbackType(dialect: SqlDialect): string {
+  return DIALECT_TYPES[dialect].text();
+}
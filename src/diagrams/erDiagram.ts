@@ -0,0 +1,211 @@
+import { isInternalRelationship, ModelRelationship, ModelTable, SchemaModel } from '../schema';
+
+export type DiagramFormat = 'mermaid' | 'plantuml' | 'dot';
+
+/**
+ * How many rows on each side of a foreign key can match one row on the other.
+ * The referenced side is 'one' when every foreign key column is required and
+ * 'zeroOrOne' otherwise; the referencing side is 'zeroOrOne' when the foreign
+ * key columns are also the table's primary key and 'many' otherwise.
+ */
+export interface Cardinality {
+  referenced: 'one' | 'zeroOrOne';
+  referencing: 'zeroOrOne' | 'many';
+}
+
+export function cardinality(table: ModelTable, relationship: ModelRelationship): Cardinality {
+  const optional = relationship.columns.some(
+    name => table.columns.find(column => column.name === name)?.nullable ?? true,
+  );
+  const unique =
+    table.primaryKey.length > 0 &&
+    table.primaryKey.length === relationship.columns.length &&
+    table.primaryKey.every(name => relationship.columns.includes(name));
+  return {
+    referenced: optional ? 'zeroOrOne' : 'one',
+    referencing: unique ? 'zeroOrOne' : 'many',
+  };
+}
+
+/**
+ * Map table names to identifiers the diagram languages accept, keeping them
+ * unique when two names only differ in unsupported characters
+ */
+function identifiers(model: SchemaModel): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const table of model.tables) {
+    const base = identifier(table.name);
+    let id = base;
+    for (let suffix = 2; used.has(id.toLowerCase()); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    used.add(id.toLowerCase());
+    ids.set(table.name, id);
+  }
+  return ids;
+}
+
+function identifier(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(id) ? id : `_${id}`;
+}
+
+/**
+ * Relationships drawn in the diagram: both tables must be part of the model
+ */
+function drawnRelationships(model: SchemaModel): [ModelTable, ModelRelationship][] {
+  const tables = new Map(model.tables.map(table => [table.name, table]));
+  return model.relationships.flatMap(relationship => {
+    const table = tables.get(relationship.table);
+    return table && isInternalRelationship(model, relationship)
+      ? [[table, relationship] as [ModelTable, ModelRelationship]]
+      : [];
+  });
+}
+
+function foreignKeyColumns(model: SchemaModel): Set<string> {
+  return new Set(
+    model.relationships.flatMap(relationship =>
+      relationship.columns.map(column => `${relationship.table}\u0000${column}`),
+    ),
+  );
+}
+
+function relationshipLabel(relationship: ModelRelationship): string {
+  return relationship.name ?? relationship.columns.join(', ');
+}
+
+function mermaid(model: SchemaModel): string {
+  const ids = identifiers(model);
+  const foreignKeys = foreignKeyColumns(model);
+  const lines = ['erDiagram'];
+
+  for (const table of model.tables) {
+    lines.push(`  ${ids.get(table.name)} {`);
+    for (const column of table.columns) {
+      const keys = [
+        table.primaryKey.includes(column.name) && 'PK',
+        foreignKeys.has(`${table.name}\u0000${column.name}`) && 'FK',
+      ].filter(Boolean);
+      // Attribute names must be plain words; keep the real name as a comment
+      const name = identifier(column.name);
+      const comment = name === column.name ? '' : ` "${column.name.replace(/"/g, "'")}"`;
+      lines.push(
+        `    ${identifier(column.type ?? 'unknown')} ${name}${keys.length ? ` ${keys.join(', ')}` : ''}${comment}`,
+      );
+    }
+    lines.push('  }');
+  }
+
+  for (const [table, relationship] of drawnRelationships(model)) {
+    const { referenced, referencing } = cardinality(table, relationship);
+    const left = referenced === 'one' ? '||' : '|o';
+    const right = referencing === 'many' ? 'o{' : 'o|';
+    lines.push(
+      `  ${ids.get(relationship.referencedTable)} ${left}--${right} ${ids.get(table.name)} : "${relationshipLabel(relationship).replace(/"/g, "'")}"`,
+    );
+  }
+  return lines.join('\n');
+}
+
+function plantUml(model: SchemaModel): string {
+  const ids = identifiers(model);
+  const foreignKeys = foreignKeyColumns(model);
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+
+  for (const table of model.tables) {
+    lines.push(`entity "${table.name.replace(/"/g, "'")}" as ${ids.get(table.name)} {`);
+    const keyColumns = table.columns.filter(column => table.primaryKey.includes(column.name));
+    const otherColumns = table.columns.filter(column => !table.primaryKey.includes(column.name));
+    const line = (column: (typeof table.columns)[number]) => {
+      const stereotypes = [
+        table.primaryKey.includes(column.name) && '<<PK>>',
+        foreignKeys.has(`${table.name}\u0000${column.name}`) && '<<FK>>',
+      ].filter(Boolean);
+      const required = column.nullable ? '' : '* ';
+      return `  ${required}${column.name} : ${column.type ?? 'unknown'}${stereotypes.length ? ` ${stereotypes.join(' ')}` : ''}`;
+    };
+    lines.push(...keyColumns.map(line));
+    if (keyColumns.length > 0 && otherColumns.length > 0) lines.push('  --');
+    lines.push(...otherColumns.map(line), '}', '');
+  }
+
+  for (const [table, relationship] of drawnRelationships(model)) {
+    const { referenced, referencing } = cardinality(table, relationship);
+    const left = referenced === 'one' ? '||' : '|o';
+    const right = referencing === 'many' ? 'o{' : 'o|';
+    lines.push(
+      `${ids.get(relationship.referencedTable)} ${left}--${right} ${ids.get(table.name)} : ${relationshipLabel(relationship)}`,
+    );
+  }
+  lines.push('@enduml');
+  return lines.join('\n');
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+function dotRecordText(value: string): string {
+  return value.replace(/[\\{}|<>"]/g, character => `\\${character}`);
+}
+
+function dot(model: SchemaModel): string {
+  const foreignKeys = foreignKeyColumns(model);
+  const lines = [
+    'digraph ER {',
+    '  rankdir=LR;',
+    '  node [shape=record, fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9, dir=both];',
+  ];
+
+  for (const table of model.tables) {
+    const columns = table.columns.map(column => {
+      const keys = [
+        table.primaryKey.includes(column.name) && 'PK',
+        foreignKeys.has(`${table.name}\u0000${column.name}`) && 'FK',
+      ].filter(Boolean);
+      const text = `${column.name} : ${column.type ?? 'unknown'}${keys.length ? ` (${keys.join(', ')})` : ''}`;
+      return `${dotRecordText(text)}\\l`;
+    });
+    lines.push(
+      `  ${dotString(table.name)} [label="{${dotRecordText(table.name)}|${columns.join('')}}"];`,
+    );
+  }
+
+  // Crow's foot style arrows: the tail sits on the referencing table
+  for (const [table, relationship] of drawnRelationships(model)) {
+    const { referenced, referencing } = cardinality(table, relationship);
+    const head = referenced === 'one' ? 'teetee' : 'teeodot';
+    const tail = referencing === 'many' ? 'crowodot' : 'teeodot';
+    lines.push(
+      `  ${dotString(table.name)} -> ${dotString(relationship.referencedTable)} [label=${dotString(relationshipLabel(relationship))}, arrowhead=${head}, arrowtail=${tail}];`,
+    );
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render a schema model as an entity-relationship diagram. Primary and foreign
+ * key columns are marked, and each foreign key is drawn with the cardinality
+ * from `cardinality`. Keys to tables outside the model are left out.
+ */
+export function renderErDiagram(model: SchemaModel, format: DiagramFormat = 'mermaid'): string {
+  switch (format) {
+    case 'plantuml':
+      return plantUml(model);
+    case 'dot':
+      return dot(model);
+    default:
+      return mermaid(model);
+  }
+}
+
+/**
+ * Number of relationships `renderErDiagram` draws for a model
+ */
+export function countDrawnRelationships(model: SchemaModel): number {
+  return drawnRelationships(model).length;
+}
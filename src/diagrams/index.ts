@@ -0,0 +1,2 @@
+export { cardinality, countDrawnRelationships, renderErDiagram } from './erDiagram';
+export type { Cardinality, DiagramFormat } from './erDiagram';
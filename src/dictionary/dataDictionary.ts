@@ -0,0 +1,212 @@
+import { canonicalType, CatalogModel, ModelColumn, ModelTable, SchemaModel } from '../schema';
+
+export const DICTIONARY_FORMATS = ['markdown', 'jsonschema', 'openapi'] as const;
+
+export type DictionaryFormat = (typeof DICTIONARY_FORMATS)[number];
+
+type JsonSchema = Record<string, unknown>;
+
+function markdownCell(value: string | undefined): string {
+  return (value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function typeLabel(column: ModelColumn): string {
+  const type = column.type ?? 'unknown';
+  if (column.size && column.scale) return `${type}(${column.size}, ${column.scale})`;
+  if (column.size && ['string', 'char', 'binary'].includes(canonicalType(column) ?? '')) {
+    return `${type}(${column.size})`;
+  }
+  return type;
+}
+
+/**
+ * Foreign key references of each column of a table, as `table.column`
+ */
+function references(schema: SchemaModel, table: ModelTable): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const relationship of schema.relationships) {
+    if (relationship.table !== table.name) continue;
+    relationship.columns.forEach((column, index) => {
+      const referenced =
+        relationship.referencedSchema === schema.schema
+          ? relationship.referencedTable
+          : `${relationship.referencedSchema}.${relationship.referencedTable}`;
+      result.set(column, `${referenced}.${relationship.referencedColumns[index]}`);
+    });
+  }
+  return result;
+}
+
+function markdown(model: CatalogModel, generatedAt: string): string {
+  const schemas = model.schemas.filter(schema => schema.tables.length > 0);
+  const lines = [`# Data dictionary: ${model.catalog}`, '', `Generated ${generatedAt}.`, ''];
+
+  for (const schema of schemas) {
+    lines.push(`## ${schema.schema}`, '');
+    for (const table of schema.tables) {
+      lines.push(`- [${table.name}](#${anchor(schema.schema, table.name)})`);
+    }
+    lines.push('');
+
+    for (const table of schema.tables) {
+      lines.push(`<a id="${anchor(schema.schema, table.name)}"></a>`);
+      lines.push(`### ${schema.schema}.${table.name}`, '');
+      if (table.type && table.type !== 'TABLE') lines.push(`Type: ${table.type}`, '');
+      if (table.description) lines.push(table.description, '');
+      lines.push(
+        '| Column | Type | Nullable | Key | Description |',
+        '|--------|------|----------|-----|-------------|',
+      );
+      const foreignKeys = references(schema, table);
+      for (const column of table.columns) {
+        const keys = [
+          table.primaryKey.includes(column.name) && 'PK',
+          foreignKeys.has(column.name) && `FK → ${foreignKeys.get(column.name)}`,
+        ].filter(Boolean);
+        lines.push(
+          `| ${markdownCell(column.name)} | ${markdownCell(typeLabel(column))} | ` +
+            `${column.nullable ? 'yes' : 'no'} | ${markdownCell(keys.join(', '))} | ` +
+            `${markdownCell(column.description)} |`,
+        );
+      }
+      lines.push('');
+    }
+  }
+
+  if (schemas.length === 0) {
+    lines.push('No tables found.', '');
+  }
+  return lines.join('\n');
+}
+
+function anchor(schema: string, table: string): string {
+  return `${schema}-${table}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * JSON Schema of a single column value
+ */
+function columnSchema(column: ModelColumn): JsonSchema {
+  const schema: JsonSchema = {};
+  switch (canonicalType(column)) {
+    case 'string':
+    case 'char':
+      schema.type = 'string';
+      if (column.size && column.size > 0) schema.maxLength = column.size;
+      break;
+    case 'text':
+      schema.type = 'string';
+      break;
+    case 'tinyint':
+    case 'smallint':
+    case 'integer':
+    case 'bigint':
+      schema.type = 'integer';
+      break;
+    case 'float':
+    case 'double':
+    case 'decimal':
+      schema.type = 'number';
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'date':
+      schema.type = 'string';
+      schema.format = 'date';
+      break;
+    case 'time':
+      schema.type = 'string';
+      schema.format = 'time';
+      break;
+    case 'timestamp':
+    case 'timestamptz':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+    case 'uuid':
+      schema.type = 'string';
+      schema.format = 'uuid';
+      break;
+    case 'binary':
+      schema.type = 'string';
+      schema.contentEncoding = 'base64';
+      break;
+    // JSON and unknown types accept any value
+  }
+  if (column.nullable && typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null'];
+  }
+  if (column.description) schema.description = column.description;
+  if (column.type) schema['x-source-type'] = column.type;
+  return schema;
+}
+
+function tableSchema(table: ModelTable): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    title: table.name,
+    properties: Object.fromEntries(
+      table.columns.map(column => [column.name, columnSchema(column)]),
+    ),
+    required: table.columns.filter(column => !column.nullable).map(column => column.name),
+  };
+  if (table.description) schema.description = table.description;
+  if (table.primaryKey.length > 0) schema['x-primary-key'] = table.primaryKey;
+  return schema;
+}
+
+/**
+ * A JSON Schema document for every table, keyed by `schema.table`
+ */
+function jsonSchemas(model: CatalogModel): Record<string, JsonSchema> {
+  const documents: Record<string, JsonSchema> = {};
+  for (const schema of model.schemas) {
+    for (const table of schema.tables) {
+      documents[`${schema.schema}.${table.name}`] = {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $id: `cdata://${[model.catalog, schema.schema, table.name].map(encodeURIComponent).join('/')}`,
+        ...tableSchema(table),
+      };
+    }
+  }
+  return documents;
+}
+
+/**
+ * An OpenAPI 3.1 components section with one schema per table. Component names
+ * may only contain letters, digits, dots, dashes and underscores.
+ */
+function openApi(model: CatalogModel): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {};
+  const multipleSchemas = model.schemas.length > 1;
+  for (const schema of model.schemas) {
+    for (const table of schema.tables) {
+      const name = (multipleSchemas ? `${schema.schema}.${table.name}` : table.name).replace(
+        /[^A-Za-z0-9._-]/g,
+        '_',
+      );
+      schemas[name] = tableSchema(table);
+    }
+  }
+  return { openapi: '3.1.0', components: { schemas } };
+}
+
+/**
+ * Render a catalog model as a data dictionary: a Markdown document, JSON
+ * Schema documents keyed by table, or an OpenAPI components section
+ */
+export function renderDataDictionary(
+  model: CatalogModel,
+  format: DictionaryFormat = 'markdown',
+  generatedAt = new Date().toISOString(),
+): string {
+  switch (format) {
+    case 'jsonschema':
+      return JSON.stringify(jsonSchemas(model), null, 2);
+    case 'openapi':
+      return JSON.stringify(openApi(model), null, 2);
+    default:
+      return markdown(model, generatedAt);
+  }
+}
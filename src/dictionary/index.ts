@@ -0,0 +1,2 @@
+export { DICTIONARY_FORMATS, renderDataDictionary } from './dataDictionary';
+export type { DictionaryFormat } from './dataDictionary';
@@ -2,12 +2,63 @@ import express from 'express';
 import { log, error } from '../utils/logger';
 import { queryData, execData } from '../tools/query';
 import { getCatalogs, getColumns, getSchemas, getTables } from '../tools/metadata';
+import { RequestCancelledError } from '../utils/abort';
+import { credentialsFromAuthorization, runWithRequestContext } from '../utils/requestContext';
+import { loadToolConfig, toolFilter } from '../server/toolConfig';
+
+/**
+ * Dispatch a direct JSON-RPC method to the matching tool function
+ */
+async function dispatch(method: string, params: any, isToolEnabled: (name: string) => boolean) {
+  if (!isToolEnabled(method)) {
+    throw new Error(`Method '${method}' not found`);
+  }
+
+  switch (method) {
+    case 'getCatalogs':
+      return getCatalogs();
+    case 'getSchemas':
+      return getSchemas(params?.catalogName);
+    case 'getTables':
+      return getTables(params?.catalogName, params?.schemaName, params?.tableName);
+    case 'getColumns':
+      return getColumns(
+        params?.catalogName,
+        params?.schemaName,
+        params?.tableName,
+        params?.columnName,
+      );
+    case 'queryData':
+      return queryData(
+        params?.query ?? '',
+        params?.defaultSchema,
+        params?.schemaOnly,
+        params?.parameters,
+        params?.maxRows !== undefined || params?.offset !== undefined || params?.cursor
+          ? { maxRows: params?.maxRows, offset: params?.offset, cursor: params?.cursor }
+          : undefined,
+        params?.confirmationToken,
+      );
+    case 'execData':
+      return execData(
+        params.procedure,
+        params?.defaultSchema,
+        params?.parameters,
+        params?.confirmationToken,
+      );
+    default:
+      throw new Error(`Method '${method}' not found`);
+  }
+}
 
 /**
  * Create the handler for direct JSON-RPC requests
  * These requests bypass the MCP transport system for simple API calls
  */
 export function createDirectHandler() {
+  // Tools hidden from MCP clients must not be reachable through this endpoint either
+  const isToolEnabled = toolFilter(loadToolConfig());
+
   return (req: express.Request, res: express.Response) => {
     (async () => {
       try {
@@ -26,45 +77,26 @@ export function createDirectHandler() {
         }
 
         const { method, params, id } = req.body;
-        global.currentRequestId = id; // Store the ID for this request
         log(`Processing direct request for method: ${method} with ID: ${id}`);
 
         // Handle methods directly based on the method name
         // This bypasses the MCP transport system for simple requests
+        // Stop upstream work when the client disconnects before the response is sent
+        const controller = new AbortController();
+        res.on('close', () => {
+          if (!res.writableEnded) controller.abort(new RequestCancelledError());
+        });
+
         let result;
         try {
-          switch (method) {
-            case 'getCatalogs':
-              result = await getCatalogs();
-              break;
-            case 'getSchemas':
-              result = await getSchemas(params?.catalogName);
-              break;
-            case 'getTables':
-              result = await getTables(params?.catalogName, params?.schemaName, params?.tableName);
-              break;
-            case 'getColumns':
-              result = await getColumns(
-                params?.catalogName,
-                params?.schemaName,
-                params?.tableName,
-                params?.columnName,
-              );
-              break;
-            case 'queryData':
-              result = await queryData(
-                params.query,
-                params?.defaultSchema,
-                params?.schemaOnly,
-                params?.parameters,
-              );
-              break;
-            case 'execData':
-              result = await execData(params.procedure, params?.defaultSchema, params?.parameters);
-              break;
-            default:
-              throw new Error(`Method '${method}' not found`);
-          }
+          result = await runWithRequestContext(
+            {
+              requestId: id ?? null,
+              credentials: credentialsFromAuthorization(req.headers.authorization),
+              signal: controller.signal,
+            },
+            () => dispatch(method, params, isToolEnabled),
+          );
 
           log(`Success for method ${method}`);
           return res.json({
@@ -3,22 +3,29 @@
 import { config } from 'dotenv';
 import { log, error } from './utils/logger';
 import { setupTransport } from './transports';
-
-// Declare a global variable to track the current request ID
-declare global {
-  var currentRequestId: string | number | null;
-}
-global.currentRequestId = null;
+import { runExportDictionary } from './cli';
 
 // Load environment variables from .env file
 config();
 
-// Start the server with the appropriate transport
-setupTransport()
-  .then(() => {
-    log('MCP Server started successfully');
-  })
-  .catch(err => {
-    error(`Failed to start MCP server: ${err}`);
-    process.exit(1);
-  });
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'export-dictionary') {
+  // Export a data dictionary and exit instead of starting the server
+  runExportDictionary(args)
+    .then(code => process.exit(code))
+    .catch(err => {
+      process.stderr.write(`Failed to export data dictionary: ${err}\n`);
+      process.exit(1);
+    });
+} else {
+  // Start the server with the appropriate transport
+  setupTransport()
+    .then(() => {
+      log('MCP Server started successfully');
+    })
+    .catch(err => {
+      error(`Failed to start MCP server: ${err}`);
+      process.exit(1);
+    });
+}
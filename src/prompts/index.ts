@@ -0,0 +1,10 @@
+export {
+  auditDataQualityPrompt,
+  callProcedurePrompt,
+  describeTablePrompt,
+  exploreConnectionPrompt,
+  findJoinPathPrompt,
+  profileColumnPrompt,
+  writeQueryPrompt,
+} from './workflowPrompts';
+export type { PromptOptions } from './workflowPrompts';
@@ -0,0 +1,386 @@
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { cdataClient, toRecords } from '../client';
+import { readSchemaResource, readTableResource, RESOURCE_MIME_TYPE, tableUri } from '../resources';
+import { warn } from '../utils/logger';
+import { quoteIdentifier } from '../utils/sqlIdentifiers';
+
+/**
+ * Maximum number of tables listed in a prompt; longer lists are cut with a note
+ */
+const MAX_PROMPT_TABLES = 200;
+
+// Parameter directions reported in COLUMN_TYPE that are not passed in
+const RESULT_DIRECTIONS = new Set([3, 4, 5]);
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+/**
+ * Settings of the server that shape the prompts
+ */
+export interface PromptOptions {
+  /** Embed sample rows of tables; only when the tool configuration exposes queryData */
+  includeSample?: boolean;
+}
+
+function text(content: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text: content } };
+}
+
+/**
+ * Embed a table's columns, keys and optionally sample rows as a resource, or a
+ * note when they cannot be loaded
+ */
+async function tableMessage(
+  catalog: string,
+  schema: string,
+  table: string,
+  includeSample: boolean,
+): Promise<PromptMessage> {
+  try {
+    const resource = await readTableResource(catalog, schema, table, includeSample);
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: tableUri(catalog, schema, table),
+          mimeType: RESOURCE_MIME_TYPE,
+          text: JSON.stringify(resource, null, 2),
+        },
+      },
+    };
+  } catch (err: any) {
+    warn(`Could not load metadata of ${catalog}.${schema}.${table} for a prompt: ${err.message}`);
+    return text(
+      `The metadata of ${catalog}.${schema}.${table} could not be loaded (${err.message}). Use the describeTable tool to look it up.`,
+    );
+  }
+}
+
+/**
+ * List table names grouped by schema, one line per schema
+ */
+function tableList(tables: { schema: string; name: string; type?: string }[]): string {
+  const bySchema = new Map<string, string[]>();
+  for (const table of tables.slice(0, MAX_PROMPT_TABLES)) {
+    const names = bySchema.get(table.schema) ?? [];
+    names.push(table.type && table.type !== 'TABLE' ? `${table.name} (${table.type})` : table.name);
+    bySchema.set(table.schema, names);
+  }
+  const lines = [...bySchema].map(([schema, names]) => `- ${schema}: ${names.join(', ')}`);
+  if (tables.length > MAX_PROMPT_TABLES) {
+    lines.push(
+      `- ... ${tables.length - MAX_PROMPT_TABLES} more tables not shown; use the getTables tool to list them`,
+    );
+  }
+  return lines.join('\n');
+}
+
+async function schemaTables(catalog: string, schema?: string): Promise<string> {
+  try {
+    if (schema) {
+      const { tables } = await readSchemaResource(catalog, schema);
+      return tableList(tables.map(table => ({ ...table, schema })));
+    }
+    const rows = toRecords(await cdataClient.getTables(catalog));
+    return tableList(
+      rows.map(row => ({ schema: row.TABLE_SCHEMA, name: row.TABLE_NAME, type: row.TABLE_TYPE })),
+    );
+  } catch (err: any) {
+    warn(`Could not list tables of ${catalog} for a prompt: ${err.message}`);
+    return `(The tables could not be listed: ${err.message}. Use the getTables tool instead.)`;
+  }
+}
+
+function qualifiedName(catalog: string, schema: string, table: string): string {
+  return [catalog, schema, table].map(quoteIdentifier).join('.');
+}
+
+/**
+ * Prompt for getting an overview of a connection
+ */
+export async function exploreConnectionPrompt(args: {
+  catalogName: string;
+  schemaName?: string;
+}): Promise<GetPromptResult> {
+  const { catalogName, schemaName } = args;
+  const scope = schemaName ? `schema ${schemaName} of connection ${catalogName}` : catalogName;
+  return {
+    description: `Explore ${scope}`,
+    messages: [
+      text(
+        [
+          `Help me understand the data available in ${scope} in CData Connect Cloud.`,
+          '',
+          'These are its tables and views, grouped by schema:',
+          await schemaTables(catalogName, schemaName),
+          '',
+          'Group the tables by business area and summarize what each group appears to hold. ' +
+            'Point out the tables that look most central, and use getColumns, getPrimaryKeys and ' +
+            'getImportedKeys on them to explain how they relate. Finish with a few questions this ' +
+            'data could answer, each with the tables it would need.',
+        ].join('\n'),
+      ),
+    ],
+  };
+}
+
+/**
+ * Prompt for explaining a single table
+ */
+export async function describeTablePrompt(
+  args: {
+    catalogName: string;
+    schemaName: string;
+    tableName: string;
+  },
+  options: PromptOptions = {},
+): Promise<GetPromptResult> {
+  const { catalogName, schemaName, tableName } = args;
+  const { includeSample = true } = options;
+  return {
+    description: `Describe ${catalogName}.${schemaName}.${tableName}`,
+    messages: [
+      await tableMessage(catalogName, schemaName, tableName, includeSample),
+      text(
+        `Describe the table ${qualifiedName(catalogName, schemaName, tableName)} using the metadata above. ` +
+          'Explain what one row represents, what each column means and which columns identify a row. ' +
+          'List the tables it references through foreign keys' +
+          (includeSample
+            ? ', and note anything in the sample rows that looks surprising, such as empty ' +
+              'columns or inconsistent formats.'
+            : '.'),
+      ),
+    ],
+  };
+}
+
+/**
+ * Prompt for turning a question into a Connect Cloud SQL query
+ */
+export async function writeQueryPrompt(
+  args: {
+    question: string;
+    catalogName: string;
+    schemaName?: string;
+    tableName?: string;
+  },
+  options: PromptOptions = {},
+): Promise<GetPromptResult> {
+  const { question, catalogName, schemaName, tableName } = args;
+  const { includeSample = true } = options;
+  const messages: PromptMessage[] = [];
+  if (schemaName && tableName) {
+    messages.push(await tableMessage(catalogName, schemaName, tableName, includeSample));
+  }
+  messages.push(
+    text(
+      [
+        `Write a SQL query against the ${catalogName} connection in CData Connect Cloud that answers this question:`,
+        '',
+        question,
+        '',
+        'Available tables and views, grouped by schema:',
+        await schemaTables(catalogName, schemaName),
+        '',
+        'Qualify every table as [catalog].[schema].[table]. Check the columns of each table you use ' +
+          'with getColumns before relying on them, and join along foreign keys from getImportedKeys ' +
+          'where possible. Use only SELECT statements. Run the query with queryData, starting with a ' +
+          'small maxRows, then explain the query and the result.',
+      ].join('\n'),
+    ),
+  );
+  return { description: `Write a query for: ${question}`, messages };
+}
+
+/**
+ * Prompt for finding how two tables can be joined
+ */
+export async function findJoinPathPrompt(
+  args: {
+    catalogName: string;
+    schemaName: string;
+    tableName: string;
+    targetTableName: string;
+  },
+  options: PromptOptions = {},
+): Promise<GetPromptResult> {
+  const { catalogName, schemaName, tableName, targetTableName } = args;
+  const { includeSample = true } = options;
+
+  let foreignKeys: string;
+  try {
+    const rows = toRecords(await cdataClient.getImportedKeys(catalogName, schemaName));
+    foreignKeys =
+      rows
+        .slice(0, MAX_PROMPT_TABLES)
+        .map(
+          row =>
+            `- ${row.FKTABLE_NAME}.${row.FKCOLUMN_NAME} -> ${row.PKTABLE_NAME}.${row.PKCOLUMN_NAME}`,
+        )
+        .join('\n') || '(No foreign keys are declared in this schema.)';
+  } catch (err: any) {
+    warn(
+      `Could not load foreign keys of ${catalogName}.${schemaName} for a prompt: ${err.message}`,
+    );
+    foreignKeys = `(The foreign keys could not be loaded: ${err.message}.)`;
+  }
+
+  return {
+    description: `Find a join path from ${tableName} to ${targetTableName}`,
+    messages: [
+      await tableMessage(catalogName, schemaName, tableName, includeSample),
+      await tableMessage(catalogName, schemaName, targetTableName, includeSample),
+      text(
+        [
+          `Find how to join ${qualifiedName(catalogName, schemaName, tableName)} to ` +
+            `${qualifiedName(catalogName, schemaName, targetTableName)}.`,
+          '',
+          `Foreign keys declared in schema ${schemaName}:`,
+          foreignKeys,
+          '',
+          'Find the shortest chain of foreign keys connecting the two tables, possibly through ' +
+            'intermediate tables. If no declared keys connect them, suggest columns that match by ' +
+            'name and type, and say that the join is inferred. Give the result as a SELECT with the ' +
+            'JOIN ... ON clauses, and explain the cardinality of each join.',
+        ].join('\n'),
+      ),
+    ],
+  };
+}
+
+/**
+ * Prompt for checking the data quality of a table
+ */
+export async function auditDataQualityPrompt(
+  args: {
+    catalogName: string;
+    schemaName: string;
+    tableName: string;
+  },
+  options: PromptOptions = {},
+): Promise<GetPromptResult> {
+  const { catalogName, schemaName, tableName } = args;
+  const { includeSample = true } = options;
+  const table = qualifiedName(catalogName, schemaName, tableName);
+  return {
+    description: `Audit the data quality of ${catalogName}.${schemaName}.${tableName}`,
+    messages: [
+      await tableMessage(catalogName, schemaName, tableName, includeSample),
+      text(
+        [
+          `Audit the data quality of ${table} using the metadata above and queries run with queryData.`,
+          '',
+          'Check:',
+          '- the row count',
+          '- the share of NULL or empty values in each column, especially non-nullable ones',
+          '- duplicate values in the primary key or in columns that look like natural keys',
+          '- foreign key values with no matching row in the referenced table',
+          '- values outside a plausible range, such as future dates or negative amounts',
+          '- inconsistent formats in text columns, such as mixed case or stray whitespace',
+          '',
+          'Use aggregate queries (COUNT, COUNT(DISTINCT ...), MIN, MAX) rather than fetching rows. ' +
+            'Report each finding with the query that found it and how many rows it affects, ' +
+            'ordered by severity.',
+        ].join('\n'),
+      ),
+    ],
+  };
+}
+
+/**
+ * Prompt for profiling the values of one column
+ */
+export async function profileColumnPrompt(
+  args: {
+    catalogName: string;
+    schemaName: string;
+    tableName: string;
+    columnName: string;
+  },
+  options: PromptOptions = {},
+): Promise<GetPromptResult> {
+  const { catalogName, schemaName, tableName, columnName } = args;
+  const { includeSample = true } = options;
+  const table = qualifiedName(catalogName, schemaName, tableName);
+  const column = quoteIdentifier(columnName);
+  return {
+    description: `Profile ${catalogName}.${schemaName}.${tableName}.${columnName}`,
+    messages: [
+      await tableMessage(catalogName, schemaName, tableName, includeSample),
+      text(
+        [
+          `Profile the column ${column} of ${table} using the metadata above and queries run with queryData.`,
+          '',
+          'Report:',
+          '- the number of rows, NULL values and distinct values',
+          '- the most frequent values and how often each occurs',
+          '- the minimum and maximum, and for numbers the average',
+          '- for text, the shortest and longest lengths and any formats that stand out',
+          '',
+          'Use aggregate queries with GROUP BY and small maxRows rather than fetching rows. ' +
+            'Finish with what the column appears to hold and anything that looks wrong in it.',
+        ].join('\n'),
+      ),
+    ],
+  };
+}
+
+/**
+ * Prompt for calling a stored procedure
+ */
+export async function callProcedurePrompt(args: {
+  catalogName: string;
+  schemaName: string;
+  procedureName: string;
+  goal?: string;
+}): Promise<GetPromptResult> {
+  const { catalogName, schemaName, procedureName, goal } = args;
+
+  let parameters: string;
+  try {
+    const rows = toRecords(
+      await cdataClient.getProcedureParameters(catalogName, schemaName, procedureName),
+    );
+    parameters =
+      rows
+        .filter(row => row.COLUMN_TYPE === undefined || !RESULT_DIRECTIONS.has(row.COLUMN_TYPE))
+        .sort((a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0))
+        .map(row => {
+          const nullable =
+            row.IS_NULLABLE === true || String(row.IS_NULLABLE).toUpperCase() === 'YES';
+          const details = [row.TYPE_NAME, nullable ? undefined : 'required']
+            .filter(Boolean)
+            .join(', ');
+          const remarks = row.REMARKS ? `: ${row.REMARKS}` : '';
+          return `- ${row.COLUMN_NAME}${details ? ` (${details})` : ''}${remarks}`;
+        })
+        .join('\n') || '(The procedure takes no input parameters.)';
+  } catch (err: any) {
+    warn(
+      `Could not load parameters of ${catalogName}.${schemaName}.${procedureName} for a prompt: ${err.message}`,
+    );
+    parameters = `(The parameters could not be loaded: ${err.message}. Use the getProcedureParameters tool instead.)`;
+  }
+
+  return {
+    description: `Call ${catalogName}.${schemaName}.${procedureName}`,
+    messages: [
+      text(
+        [
+          `Help me call the stored procedure ${qualifiedName(catalogName, schemaName, procedureName)} ` +
+            'in CData Connect Cloud' +
+            (goal ? ` to ${goal}` : '') +
+            '.',
+          '',
+          'Its parameters:',
+          parameters,
+          '',
+          'Explain what the procedure appears to do and what each parameter means. Ask me for any ' +
+            'required value you cannot work out, then call it with execData and explain the result. ' +
+            'Procedures can change data in the source, so show me the parameters you will send first.',
+        ].join('\n'),
+      ),
+    ],
+  };
+}
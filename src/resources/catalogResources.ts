@@ -0,0 +1,167 @@
+import { cdataClient, toRecords } from '../client';
+import { loadTableDescription, TableDescription } from '../tools/metadata';
+import { structuredResultSet, StructuredResultSet } from '../tools/query';
+import { warn } from '../utils/logger';
+import { quoteIdentifier } from '../utils/sqlIdentifiers';
+
+/**
+ * Number of sample rows included in a table resource; 0 disables the sample
+ */
+export const RESOURCE_SAMPLE_ROWS = parseInt(process.env.RESOURCE_SAMPLE_ROWS || '5');
+
+/**
+ * Maximum number of tables returned by resources/list. Tables past the limit
+ * can still be read, and are listed in their schema resource.
+ */
+const RESOURCE_MAX_LISTED_TABLES = parseInt(process.env.RESOURCE_MAX_LISTED_TABLES || '500');
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Entry returned by resources/list
+ */
+export type ResourceEntry = {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+};
+
+/**
+ * Content of a `cdata://{catalog}/{schema}/{table}` resource: the table
+ * description with a few sample rows
+ */
+export type TableResource = TableDescription & {
+  sample?: StructuredResultSet;
+};
+
+export function catalogUri(catalog: string): string {
+  return `cdata://${encodeURIComponent(catalog)}`;
+}
+
+export function schemaUri(catalog: string, schema: string): string {
+  return `${catalogUri(catalog)}/${encodeURIComponent(schema)}`;
+}
+
+export function tableUri(catalog: string, schema: string, table: string): string {
+  return `${schemaUri(catalog, schema)}/${encodeURIComponent(table)}`;
+}
+
+/**
+ * List every connection as a resource
+ */
+export async function listCatalogResources(): Promise<ResourceEntry[]> {
+  const catalogs = toRecords(await cdataClient.getCatalogs());
+  return catalogs.map(row => ({
+    uri: catalogUri(row.TABLE_CATALOG),
+    name: row.TABLE_CATALOG,
+    description: `Schemas of the ${row.TABLE_CATALOG} connection`,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+}
+
+/**
+ * List the schemas of every connection as resources
+ */
+export async function listSchemaResources(): Promise<ResourceEntry[]> {
+  const schemas = toRecords(await cdataClient.getSchemas());
+  return schemas.map(row => ({
+    uri: schemaUri(row.TABLE_CATALOG, row.TABLE_SCHEMA),
+    name: `${row.TABLE_CATALOG}.${row.TABLE_SCHEMA}`,
+    description: `Tables in schema ${row.TABLE_SCHEMA} of ${row.TABLE_CATALOG}`,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+}
+
+/**
+ * List tables as resources, up to RESOURCE_MAX_LISTED_TABLES. Catalogs are
+ * listed one at a time and no more are asked for once the limit is reached.
+ */
+export async function listTableResources(): Promise<ResourceEntry[]> {
+  const catalogs = toRecords(await cdataClient.getCatalogs()).map(row => row.TABLE_CATALOG);
+  const entries: ResourceEntry[] = [];
+  for (const catalog of catalogs) {
+    if (entries.length >= RESOURCE_MAX_LISTED_TABLES) {
+      warn(
+        `Listing the first ${RESOURCE_MAX_LISTED_TABLES} tables as resources; read a schema resource to see the rest`,
+      );
+      break;
+    }
+    try {
+      for (const row of toRecords(await cdataClient.getTables(catalog))) {
+        entries.push({
+          uri: tableUri(row.TABLE_CATALOG ?? catalog, row.TABLE_SCHEMA, row.TABLE_NAME),
+          name: `${row.TABLE_CATALOG ?? catalog}.${row.TABLE_SCHEMA}.${row.TABLE_NAME}`,
+          description: row.REMARKS || `Columns, keys and sample rows of ${row.TABLE_NAME}`,
+          mimeType: RESOURCE_MIME_TYPE,
+        });
+      }
+    } catch (err: any) {
+      warn(`Could not list tables of ${catalog} as resources: ${err.message}`);
+    }
+  }
+  return entries.slice(0, RESOURCE_MAX_LISTED_TABLES);
+}
+
+/**
+ * Content of a `cdata://{catalog}` resource: the catalog's schemas
+ */
+export async function readCatalogResource(catalog: string) {
+  const schemas = toRecords(await cdataClient.getSchemas(catalog));
+  return {
+    catalog,
+    schemas: schemas.map(row => ({
+      name: row.TABLE_SCHEMA,
+      uri: schemaUri(catalog, row.TABLE_SCHEMA),
+    })),
+  };
+}
+
+/**
+ * Content of a `cdata://{catalog}/{schema}` resource: the schema's tables and views
+ */
+export async function readSchemaResource(catalog: string, schema: string) {
+  const tables = toRecords(await cdataClient.getTables(catalog, schema));
+  return {
+    catalog,
+    schema,
+    tables: tables.map(row => ({
+      name: row.TABLE_NAME,
+      type: row.TABLE_TYPE,
+      description: row.REMARKS ?? undefined,
+      uri: tableUri(catalog, schema, row.TABLE_NAME),
+    })),
+  };
+}
+
+/**
+ * Content of a `cdata://{catalog}/{schema}/{table}` resource. A sample that
+ * cannot be loaded is left out and reported in `errors`.
+ * @param includeSample Whether sample rows may be read; false when `queryData`
+ * is not exposed, so resources never show more data than the tools do
+ */
+export async function readTableResource(
+  catalog: string,
+  schema: string,
+  table: string,
+  includeSample = true,
+): Promise<TableResource> {
+  const sampleQuery =
+    `SELECT * FROM ${[catalog, schema, table].map(quoteIdentifier).join('.')}` +
+    ` LIMIT ${RESOURCE_SAMPLE_ROWS}`;
+
+  const [description, sample] = await Promise.all([
+    loadTableDescription(catalog, schema, table),
+    includeSample && RESOURCE_SAMPLE_ROWS > 0
+      ? cdataClient.query({ query: sampleQuery }).catch((err: Error) => err)
+      : undefined,
+  ]);
+
+  if (sample instanceof Error) {
+    warn(`Could not load sample rows of ${catalog}.${schema}.${table}: ${sample.message}`);
+    return { ...description, errors: { ...description.errors, sample: sample.message } };
+  }
+  const sampleSet = sample?.results?.[0];
+  return sampleSet ? { ...description, sample: structuredResultSet(sampleSet) } : description;
+}
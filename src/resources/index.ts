@@ -0,0 +1,13 @@
+export {
+  catalogUri,
+  schemaUri,
+  tableUri,
+  listCatalogResources,
+  listSchemaResources,
+  listTableResources,
+  readCatalogResource,
+  readSchemaResource,
+  readTableResource,
+  RESOURCE_MIME_TYPE,
+} from './catalogResources';
+export type { ResourceEntry, TableResource } from './catalogResources';
@@ -0,0 +1,162 @@
+import { ModelColumn } from './schemaModel';
+
+/**
+ * Dialect-neutral column types that source types are mapped to first
+ */
+export const CANONICAL_TYPES = [
+  'string',
+  'char',
+  'text',
+  'tinyint',
+  'smallint',
+  'integer',
+  'bigint',
+  'float',
+  'double',
+  'decimal',
+  'boolean',
+  'date',
+  'time',
+  'timestamp',
+  'timestamptz',
+  'uuid',
+  'binary',
+  'json',
+] as const;
+
+export type CanonicalType = (typeof CANONICAL_TYPES)[number];
+
+// Type names reported by Connect Cloud sources, lower case and without size
+const TYPE_ALIASES: Record<string, CanonicalType> = {
+  varchar: 'string',
+  nvarchar: 'string',
+  varchar2: 'string',
+  nvarchar2: 'string',
+  string: 'string',
+  'character varying': 'string',
+  char: 'char',
+  nchar: 'char',
+  character: 'char',
+  text: 'text',
+  ntext: 'text',
+  longvarchar: 'text',
+  longnvarchar: 'text',
+  mediumtext: 'text',
+  longtext: 'text',
+  clob: 'text',
+  nclob: 'text',
+  xml: 'text',
+  tinyint: 'tinyint',
+  byte: 'tinyint',
+  smallint: 'smallint',
+  short: 'smallint',
+  int16: 'smallint',
+  int: 'integer',
+  integer: 'integer',
+  int32: 'integer',
+  mediumint: 'integer',
+  bigint: 'bigint',
+  long: 'bigint',
+  int64: 'bigint',
+  real: 'float',
+  float4: 'float',
+  single: 'float',
+  float: 'double',
+  float8: 'double',
+  double: 'double',
+  'double precision': 'double',
+  decimal: 'decimal',
+  numeric: 'decimal',
+  number: 'decimal',
+  money: 'decimal',
+  smallmoney: 'decimal',
+  currency: 'decimal',
+  bool: 'boolean',
+  boolean: 'boolean',
+  bit: 'boolean',
+  date: 'date',
+  time: 'time',
+  datetime: 'timestamp',
+  datetime2: 'timestamp',
+  smalldatetime: 'timestamp',
+  timestamp: 'timestamp',
+  datetimeoffset: 'timestamptz',
+  timestamptz: 'timestamptz',
+  'timestamp with time zone': 'timestamptz',
+  uuid: 'uuid',
+  uniqueidentifier: 'uuid',
+  guid: 'uuid',
+  binary: 'binary',
+  varbinary: 'binary',
+  longvarbinary: 'binary',
+  blob: 'binary',
+  image: 'binary',
+  bytea: 'binary',
+  bytes: 'binary',
+  json: 'json',
+  jsonb: 'json',
+};
+
+// Connect Cloud data type codes, used when a source reports no type name
+const DATA_TYPE_CODES: Record<number, CanonicalType> = {
+  0: 'binary',
+  1: 'string',
+  2: 'tinyint',
+  3: 'smallint',
+  4: 'integer',
+  5: 'bigint',
+  6: 'float',
+  7: 'double',
+  8: 'decimal',
+  9: 'decimal',
+  10: 'boolean',
+  11: 'date',
+  12: 'time',
+  13: 'timestamp',
+  14: 'uuid',
+};
+
+/**
+ * Classify a column by its source type name, or by its Connect Cloud data type
+ * code when the source reports no name. Undefined for types not in the table.
+ */
+export function canonicalType(column: ModelColumn): CanonicalType | undefined {
+  if (column.type) {
+    const name = column.type
+      .toLowerCase()
+      .replace(/\(.*\)/, '')
+      .trim();
+    return TYPE_ALIASES[name];
+  }
+  return column.dataType !== undefined ? DATA_TYPE_CODES[column.dataType] : undefined;
+}
+
+// Connect Cloud data type code used for parameter values of each canonical type
+const PARAMETER_TYPE_CODES: Record<CanonicalType, number> = {
+  string: 1,
+  char: 1,
+  text: 1,
+  tinyint: 2,
+  smallint: 3,
+  integer: 4,
+  bigint: 5,
+  float: 6,
+  double: 7,
+  decimal: 8,
+  boolean: 10,
+  date: 11,
+  time: 12,
+  timestamp: 13,
+  timestamptz: 13,
+  uuid: 14,
+  binary: 0,
+  json: 1,
+};
+
+/**
+ * The Connect Cloud data type code to send a parameter of this type with.
+ * Types without a code of their own, including unknown types, are sent as strings.
+ */
+export function parameterTypeCode(type: CanonicalType | undefined): number {
+  return type ? PARAMETER_TYPE_CODES[type] : PARAMETER_TYPE_CODES.string;
+}
@@ -0,0 +1,24 @@
+export { isInternalRelationship, loadCatalogModel, loadSchemaModel, toColumn } from './schemaModel';
+export type {
+  CatalogModel,
+  LoadModelOptions,
+  ModelColumn,
+  ModelIndex,
+  ModelRelationship,
+  ModelTable,
+  SchemaModel,
+} from './schemaModel';
+export { joinClause, JoinGraph } from './joinGraph';
+export type { JoinStep } from './joinGraph';
+export {
+  captureSnapshot,
+  listSnapshots,
+  loadLiveSnapshot,
+  readSnapshot,
+  summarizeSnapshot,
+} from './snapshots';
+export type { SchemaSnapshot, SnapshotSummary } from './snapshots';
+export { diffSnapshots } from './schemaDiff';
+export type { ColumnChange, SchemaDiff, TableChange, TableSummary } from './schemaDiff';
+export { CANONICAL_TYPES, canonicalType, parameterTypeCode } from './columnTypes';
+export type { CanonicalType } from './columnTypes';
@@ -0,0 +1,107 @@
+import { quoteIdentifier } from '../utils/sqlIdentifiers';
+import { isInternalRelationship, ModelRelationship, SchemaModel } from './schemaModel';
+
+/**
+ * One foreign key followed while joining `from` to `to`
+ */
+export interface JoinStep {
+  from: string;
+  to: string;
+  foreignKey?: string;
+  /** Column pairs, each with the `from` column first */
+  on: [string, string][];
+}
+
+interface Edge {
+  to: string;
+  relationship: ModelRelationship;
+}
+
+/**
+ * Undirected graph of the tables of a schema, with an edge for each foreign key
+ * between two of them. Self-references are left out since they never shorten a path.
+ */
+export class JoinGraph {
+  private readonly edges = new Map<string, Edge[]>();
+
+  constructor(readonly model: SchemaModel) {
+    for (const table of model.tables) {
+      this.edges.set(table.name, []);
+    }
+    for (const relationship of model.relationships) {
+      if (
+        relationship.table === relationship.referencedTable ||
+        !isInternalRelationship(model, relationship)
+      ) {
+        continue;
+      }
+      this.edges.get(relationship.table)?.push({ to: relationship.referencedTable, relationship });
+      this.edges.get(relationship.referencedTable)?.push({ to: relationship.table, relationship });
+    }
+  }
+
+  /**
+   * The table of the graph with this name, ignoring case
+   */
+  resolve(name: string): string | undefined {
+    if (this.edges.has(name)) return name;
+    return [...this.edges.keys()].find(table => table.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Shortest chain of foreign keys from any of `sources` to `target`, found
+   * breadth first. Returns undefined when no chain exists.
+   */
+  shortestPath(sources: Iterable<string>, target: string): JoinStep[] | undefined {
+    const previous = new Map<string, { table: string; edge: Edge } | null>();
+    const queue: string[] = [];
+    for (const source of sources) {
+      previous.set(source, null);
+      queue.push(source);
+    }
+
+    for (let head = 0; head < queue.length && !previous.has(target); head++) {
+      const table = queue[head];
+      for (const edge of this.edges.get(table) ?? []) {
+        if (previous.has(edge.to)) continue;
+        previous.set(edge.to, { table, edge });
+        queue.push(edge.to);
+      }
+    }
+    if (!previous.has(target)) {
+      return undefined;
+    }
+
+    const steps: JoinStep[] = [];
+    for (let step = previous.get(target); step; step = previous.get(step.table)) {
+      steps.unshift(joinStep(step.table, step.edge));
+    }
+    return steps;
+  }
+}
+
+function joinStep(from: string, { to, relationship }: Edge): JoinStep {
+  const forward = relationship.table === from;
+  const on = relationship.columns.map((column, index): [string, string] =>
+    forward
+      ? [column, relationship.referencedColumns[index]]
+      : [relationship.referencedColumns[index], column],
+  );
+  const step: JoinStep = { from, to, on };
+  if (relationship.name) step.foreignKey = relationship.name;
+  return step;
+}
+
+/**
+ * `JOIN ... ON ...` clause that adds `step.to` to a query already containing
+ * `step.from`. Tables are aliased by their own name so the clauses can be chained.
+ */
+export function joinClause(model: SchemaModel, step: JoinStep): string {
+  const table = [model.catalog, model.schema, step.to].map(quoteIdentifier).join('.');
+  const conditions = step.on.map(
+    ([fromColumn, toColumn]) =>
+      `${quoteIdentifier(step.to)}.${quoteIdentifier(toColumn)} = ` +
+      `${quoteIdentifier(step.from)}.${quoteIdentifier(fromColumn)}`,
+  );
+  return `JOIN ${table} AS ${quoteIdentifier(step.to)} ON ${conditions.join(' AND ')}`;
+}
@@ -0,0 +1,214 @@
+import { ModelColumn, ModelIndex, ModelRelationship, ModelTable } from './schemaModel';
+import { SchemaSnapshot } from './snapshots';
+
+type ColumnField =
+  | 'type'
+  | 'dataType'
+  | 'size'
+  | 'scale'
+  | 'nullable'
+  | 'default'
+  | 'autoIncrement';
+
+// Column properties whose change can break a saved query
+const COMPARED_FIELDS: ColumnField[] = [
+  'type',
+  'dataType',
+  'size',
+  'scale',
+  'nullable',
+  'default',
+  'autoIncrement',
+];
+
+export interface ColumnChange {
+  column: string;
+  changes: Partial<
+    Record<ColumnField, { before?: string | number | boolean; after?: string | number | boolean }>
+  >;
+}
+
+export interface TableChange {
+  schema: string;
+  table: string;
+  addedColumns?: ModelColumn[];
+  removedColumns?: ModelColumn[];
+  changedColumns?: ColumnChange[];
+  primaryKey?: { before: string[]; after: string[] };
+  addedForeignKeys?: ModelRelationship[];
+  removedForeignKeys?: ModelRelationship[];
+  addedIndexes?: ModelIndex[];
+  removedIndexes?: ModelIndex[];
+}
+
+export interface TableSummary {
+  schema: string;
+  table: string;
+  columns: number;
+}
+
+/**
+ * Differences between two snapshots, from `base` to `target`
+ */
+export interface SchemaDiff {
+  addedTables: TableSummary[];
+  removedTables: TableSummary[];
+  changedTables: TableChange[];
+  unchangedTables: number;
+  /** Parts that were not compared because a snapshot could not load them */
+  skipped?: string[];
+}
+
+function tablesOf(
+  snapshot: SchemaSnapshot,
+  schemaName?: string,
+): Map<string, { schema: string; table: ModelTable }> {
+  const tables = new Map<string, { schema: string; table: ModelTable }>();
+  for (const schema of snapshot.schemas) {
+    if (schemaName && schema.schema !== schemaName) continue;
+    for (const table of schema.tables) {
+      tables.set(`${schema.schema}\u0000${table.name}`, { schema: schema.schema, table });
+    }
+  }
+  return tables;
+}
+
+function relationshipsOf(snapshot: SchemaSnapshot): Map<string, ModelRelationship[]> {
+  const relationships = new Map<string, ModelRelationship[]>();
+  for (const schema of snapshot.schemas) {
+    for (const relationship of schema.relationships) {
+      const key = `${schema.schema}\u0000${relationship.table}`;
+      relationships.set(key, [...(relationships.get(key) ?? []), relationship]);
+    }
+  }
+  return relationships;
+}
+
+function relationshipKey(relationship: ModelRelationship): string {
+  return [
+    relationship.columns.join(','),
+    relationship.referencedCatalog,
+    relationship.referencedSchema,
+    relationship.referencedTable,
+    relationship.referencedColumns.join(','),
+  ].join('\u0000');
+}
+
+function indexKey(index: ModelIndex): string {
+  return [index.name, index.unique, index.columns.join(',')].join('\u0000');
+}
+
+/**
+ * Items of `after` missing from `before` and items of `before` missing from `after`
+ */
+function compareLists<T>(before: T[], after: T[], key: (item: T) => string): [T[], T[]] {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return [
+    after.filter(item => !beforeKeys.has(key(item))),
+    before.filter(item => !afterKeys.has(key(item))),
+  ];
+}
+
+function compareColumns(before: ModelColumn, after: ModelColumn): ColumnChange | undefined {
+  const changes: ColumnChange['changes'] = {};
+  for (const field of COMPARED_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes[field] = { before: before[field], after: after[field] };
+    }
+  }
+  return Object.keys(changes).length > 0 ? { column: after.name, changes } : undefined;
+}
+
+/**
+ * Compare two snapshots table by table. When only one snapshot is limited to a
+ * schema, the other is compared within that schema. Keys and indexes are only
+ * compared when both snapshots loaded them, so a source that failed to report
+ * them once does not show up as drift.
+ */
+export function diffSnapshots(base: SchemaSnapshot, target: SchemaSnapshot): SchemaDiff {
+  const loaded = (part: string) => !base.errors?.[part] && !target.errors?.[part];
+  const foreignKeysLoaded = (snapshot: SchemaSnapshot) =>
+    !snapshot.errors?.importedKeys || !snapshot.errors?.exportedKeys;
+  const comparePrimaryKeys = loaded('primaryKeys');
+  const compareForeignKeys = foreignKeysLoaded(base) && foreignKeysLoaded(target);
+
+  const schemaName = base.schema ?? target.schema;
+  const baseTables = tablesOf(base, schemaName);
+  const targetTables = tablesOf(target, schemaName);
+  const baseRelationships = relationshipsOf(base);
+  const targetRelationships = relationshipsOf(target);
+  const summary = ({ schema, table }: { schema: string; table: ModelTable }): TableSummary => ({
+    schema,
+    table: table.name,
+    columns: table.columns.length,
+  });
+
+  const diff: SchemaDiff = {
+    addedTables: [...targetTables]
+      .filter(([key]) => !baseTables.has(key))
+      .map(([, entry]) => summary(entry)),
+    removedTables: [...baseTables]
+      .filter(([key]) => !targetTables.has(key))
+      .map(([, entry]) => summary(entry)),
+    changedTables: [],
+    unchangedTables: 0,
+  };
+
+  for (const [key, { schema, table: after }] of targetTables) {
+    const before = baseTables.get(key)?.table;
+    if (!before) continue;
+
+    const change: TableChange = { schema, table: after.name };
+    const [addedColumns, removedColumns] = compareLists(
+      before.columns,
+      after.columns,
+      column => column.name,
+    );
+    if (addedColumns.length) change.addedColumns = addedColumns;
+    if (removedColumns.length) change.removedColumns = removedColumns;
+
+    const changedColumns = after.columns.flatMap(column => {
+      const previous = before.columns.find(candidate => candidate.name === column.name);
+      const columnChange = previous && compareColumns(previous, column);
+      return columnChange ? [columnChange] : [];
+    });
+    if (changedColumns.length) change.changedColumns = changedColumns;
+
+    if (comparePrimaryKeys && before.primaryKey.join(',') !== after.primaryKey.join(',')) {
+      change.primaryKey = { before: before.primaryKey, after: after.primaryKey };
+    }
+
+    if (compareForeignKeys) {
+      const [addedForeignKeys, removedForeignKeys] = compareLists(
+        baseRelationships.get(key) ?? [],
+        targetRelationships.get(key) ?? [],
+        relationshipKey,
+      );
+      if (addedForeignKeys.length) change.addedForeignKeys = addedForeignKeys;
+      if (removedForeignKeys.length) change.removedForeignKeys = removedForeignKeys;
+    }
+
+    if (before.indexes && after.indexes) {
+      const [addedIndexes, removedIndexes] = compareLists(before.indexes, after.indexes, indexKey);
+      if (addedIndexes.length) change.addedIndexes = addedIndexes;
+      if (removedIndexes.length) change.removedIndexes = removedIndexes;
+    }
+
+    if (Object.keys(change).length > 2) {
+      diff.changedTables.push(change);
+    } else {
+      diff.unchangedTables++;
+    }
+  }
+
+  const skipped = [
+    !comparePrimaryKeys && 'primaryKeys',
+    !compareForeignKeys && 'foreignKeys',
+    !loaded('indexes') && 'indexes',
+  ].filter((part): part is string => Boolean(part));
+  if (skipped.length > 0) {
+    diff.skipped = skipped;
+  }
+  return diff;
+}
@@ -0,0 +1,315 @@
+import { cdataClient, ColumnRow, ForeignKeyRow, toRecords } from '../client';
+import { startProgress, trackStep } from '../utils/progress';
+
+export interface ModelColumn {
+  name: string;
+  type?: string;
+  /** Connect Cloud data type code */
+  dataType?: number;
+  size?: number;
+  scale?: number;
+  nullable: boolean;
+  default?: string;
+  autoIncrement?: boolean;
+  description?: string;
+}
+
+export interface ModelIndex {
+  name: string;
+  unique: boolean;
+  columns: string[];
+}
+
+export interface ModelTable {
+  name: string;
+  type?: string;
+  description?: string;
+  columns: ModelColumn[];
+  primaryKey: string[];
+  /** Only present when indexes were asked for and could be loaded */
+  indexes?: ModelIndex[];
+}
+
+/**
+ * A foreign key from `table` to `referencedTable`. The referenced table may
+ * live in another schema or catalog.
+ */
+export interface ModelRelationship {
+  name?: string;
+  table: string;
+  columns: string[];
+  referencedCatalog: string;
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+/**
+ * Tables, columns, primary keys and foreign keys of one schema
+ */
+export interface SchemaModel {
+  catalog: string;
+  schema: string;
+  tables: ModelTable[];
+  relationships: ModelRelationship[];
+  /** Parts of the model that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+function isTrue(value: boolean | string | undefined): boolean {
+  return value === true || ['YES', 'TRUE'].includes(String(value).toUpperCase());
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Convert a `getColumns` row into a model column
+ */
+export function toColumn(row: ColumnRow): ModelColumn {
+  const column: ModelColumn = { name: row.COLUMN_NAME, nullable: isTrue(row.IS_NULLABLE) };
+  if (row.TYPE_NAME) column.type = row.TYPE_NAME;
+  if (row.DATA_TYPE != null) column.dataType = row.DATA_TYPE;
+  if (row.COLUMN_SIZE != null) column.size = row.COLUMN_SIZE;
+  if (row.DECIMAL_DIGITS != null) column.scale = row.DECIMAL_DIGITS;
+  if (row.COLUMN_DEFAULT != null) column.default = row.COLUMN_DEFAULT;
+  if (row.IS_AUTOINCREMENT !== undefined && isTrue(row.IS_AUTOINCREMENT)) {
+    column.autoIncrement = true;
+  }
+  if (row.REMARKS) column.description = row.REMARKS;
+  return column;
+}
+
+/**
+ * Group foreign key rows into relationships, keeping the columns in key order,
+ * each with the schema of its referencing table
+ */
+function toRelationships(
+  rows: ForeignKeyRow[],
+): { schema: string; relationship: ModelRelationship }[] {
+  const relationships = new Map<string, { schema: string; relationship: ModelRelationship }>();
+  const sorted = [...rows].sort((a, b) => (a.KEY_SEQ ?? 0) - (b.KEY_SEQ ?? 0));
+  for (const row of sorted) {
+    const id = [
+      row.FK_NAME ?? '',
+      row.FKTABLE_SCHEMA,
+      row.FKTABLE_NAME,
+      row.PKTABLE_CATALOG,
+      row.PKTABLE_SCHEMA,
+      row.PKTABLE_NAME,
+    ].join('\u0000');
+    let relationship = relationships.get(id)?.relationship;
+    if (!relationship) {
+      relationship = {
+        table: row.FKTABLE_NAME,
+        columns: [],
+        referencedCatalog: row.PKTABLE_CATALOG,
+        referencedSchema: row.PKTABLE_SCHEMA,
+        referencedTable: row.PKTABLE_NAME,
+        referencedColumns: [],
+      };
+      if (row.FK_NAME) relationship.name = row.FK_NAME;
+      relationships.set(id, { schema: row.FKTABLE_SCHEMA, relationship });
+    }
+    // Imported and exported keys report the same rows for keys inside the schema
+    if (!relationship.columns.includes(row.FKCOLUMN_NAME)) {
+      relationship.columns.push(row.FKCOLUMN_NAME);
+      relationship.referencedColumns.push(row.PKCOLUMN_NAME);
+    }
+  }
+  return [...relationships.values()];
+}
+
+/**
+ * The schemas of a catalog, loaded together
+ */
+export interface CatalogModel {
+  catalog: string;
+  schemas: SchemaModel[];
+  /** Parts of the model that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+export interface LoadModelOptions {
+  /** Tables to keep; relationships to other tables are dropped */
+  tableNames?: string[];
+  /** Also load the indexes of every table */
+  indexes?: boolean;
+}
+
+/**
+ * Load the tables, columns, primary keys, foreign keys and optionally indexes
+ * of a catalog or one of its schemas with one call per metadata endpoint. Only
+ * the columns are required; parts a source cannot provide are left out and
+ * reported in `errors`.
+ * @param catalogName The catalog (connection) to load
+ * @param schemaName Optional schema to limit the model to
+ * @param options Tables to keep and whether to load indexes
+ */
+export async function loadCatalogModel(
+  catalogName: string,
+  schemaName?: string,
+  options: LoadModelOptions = {},
+): Promise<CatalogModel> {
+  const { tableNames } = options;
+  const progress = startProgress(
+    options.indexes ? 6 : 5,
+    `Loading metadata of ${schemaName ? `${catalogName}.${schemaName}` : catalogName}`,
+  );
+  const [tables, columns, primaryKeys, importedKeys, exportedKeys, indexes] =
+    await Promise.allSettled([
+      trackStep(progress, 'tables', cdataClient.getTables(catalogName, schemaName)),
+      trackStep(progress, 'columns', cdataClient.getColumns(catalogName, schemaName)),
+      trackStep(progress, 'primary keys', cdataClient.getPrimaryKeys(catalogName, schemaName)),
+      trackStep(progress, 'imported keys', cdataClient.getImportedKeys(catalogName, schemaName)),
+      trackStep(progress, 'exported keys', cdataClient.getExportedKeys(catalogName, schemaName)),
+      options.indexes
+        ? trackStep(progress, 'indexes', cdataClient.getIndexes(catalogName, schemaName))
+        : Promise.resolve(undefined),
+    ]);
+  if (columns.status === 'rejected') {
+    throw columns.reason;
+  }
+
+  const errors: Record<string, string> = {};
+  const parts = { tables, primaryKeys, importedKeys, exportedKeys, indexes };
+  for (const [part, result] of Object.entries(parts)) {
+    if (result.status === 'rejected') {
+      errors[part] = result.reason?.message ?? String(result.reason);
+    }
+  }
+
+  const included = (name: string) =>
+    !tableNames || tableNames.some(tableName => sameName(tableName, name));
+
+  // Tables keyed by schema, then by name
+  const schemas = new Map<string, Map<string, ModelTable>>();
+  const findTable = (schema: string, table: string) => schemas.get(schema)?.get(table);
+
+  const columnRows = toRecords(columns.value).sort(
+    (a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0),
+  );
+  for (const row of columnRows) {
+    if (!included(row.TABLE_NAME)) continue;
+    const schema = row.TABLE_SCHEMA ?? schemaName ?? '';
+    let schemaTables = schemas.get(schema);
+    if (!schemaTables) {
+      schemaTables = new Map();
+      schemas.set(schema, schemaTables);
+    }
+    let table = schemaTables.get(row.TABLE_NAME);
+    if (!table) {
+      table = { name: row.TABLE_NAME, columns: [], primaryKey: [] };
+      schemaTables.set(row.TABLE_NAME, table);
+    }
+    table.columns.push(toColumn(row));
+  }
+
+  if (tables.status === 'fulfilled') {
+    for (const row of toRecords(tables.value)) {
+      const table = findTable(row.TABLE_SCHEMA ?? schemaName ?? '', row.TABLE_NAME);
+      if (!table) continue;
+      if (row.TABLE_TYPE) table.type = row.TABLE_TYPE;
+      if (row.REMARKS) table.description = row.REMARKS;
+    }
+  }
+
+  if (primaryKeys.status === 'fulfilled') {
+    const rows = toRecords(primaryKeys.value).sort((a, b) => (a.KEY_SEQ ?? 0) - (b.KEY_SEQ ?? 0));
+    for (const row of rows) {
+      findTable(row.TABLE_SCHEMA ?? schemaName ?? '', row.TABLE_NAME)?.primaryKey.push(
+        row.COLUMN_NAME,
+      );
+    }
+  }
+
+  if (indexes.status === 'fulfilled' && indexes.value) {
+    for (const schemaTables of schemas.values()) {
+      for (const table of schemaTables.values()) table.indexes = [];
+    }
+    const rows = toRecords(indexes.value).sort(
+      (a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0),
+    );
+    for (const row of rows) {
+      const table = findTable(row.TABLE_SCHEMA ?? schemaName ?? '', row.TABLE_NAME);
+      if (!table?.indexes || !row.INDEX_NAME) continue;
+      let index = table.indexes.find(candidate => candidate.name === row.INDEX_NAME);
+      if (!index) {
+        index = { name: row.INDEX_NAME, unique: !isTrue(row.NON_UNIQUE), columns: [] };
+        table.indexes.push(index);
+      }
+      if (row.COLUMN_NAME) index.columns.push(row.COLUMN_NAME);
+    }
+  }
+
+  const keyRows = [importedKeys, exportedKeys].flatMap(result =>
+    result.status === 'fulfilled' ? toRecords(result.value) : [],
+  );
+  const relationships = new Map<string, ModelRelationship[]>();
+  for (const { schema, relationship } of toRelationships(keyRows)) {
+    if (!findTable(schema, relationship.table)) continue;
+    if (
+      tableNames &&
+      !(
+        sameName(relationship.referencedCatalog, catalogName) &&
+        findTable(relationship.referencedSchema, relationship.referencedTable)
+      )
+    ) {
+      continue;
+    }
+    relationships.set(schema, [...(relationships.get(schema) ?? []), relationship]);
+  }
+
+  const result: CatalogModel = {
+    catalog: catalogName,
+    schemas: [...schemas].map(([schema, schemaTables]) => ({
+      catalog: catalogName,
+      schema,
+      tables: [...schemaTables.values()],
+      relationships: relationships.get(schema) ?? [],
+    })),
+  };
+  if (Object.keys(errors).length > 0) {
+    result.errors = errors;
+  }
+  return result;
+}
+
+/**
+ * Load the tables, columns, primary keys and foreign keys of one schema
+ * @param catalogName The catalog (connection) of the schema
+ * @param schemaName The schema to load
+ * @param tableNames Optional tables to keep; relationships to other tables are dropped
+ */
+export async function loadSchemaModel(
+  catalogName: string,
+  schemaName: string,
+  tableNames?: string[],
+): Promise<SchemaModel> {
+  const { schemas, errors } = await loadCatalogModel(catalogName, schemaName, { tableNames });
+  const model: SchemaModel = schemas.find(schema => sameName(schema.schema, schemaName)) ?? {
+    catalog: catalogName,
+    schema: schemaName,
+    tables: [],
+    relationships: [],
+  };
+  if (errors) {
+    model.errors = errors;
+  }
+  return model;
+}
+
+/**
+ * Whether a relationship points at a table of the same model
+ */
+export function isInternalRelationship(
+  model: SchemaModel,
+  relationship: ModelRelationship,
+): boolean {
+  return (
+    sameName(relationship.referencedCatalog, model.catalog) &&
+    sameName(relationship.referencedSchema, model.schema) &&
+    model.tables.some(table => table.name === relationship.referencedTable)
+  );
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { cdataClient } from '../client';
+import { loadCatalogModel, SchemaModel } from './schemaModel';
+
+const SCHEMA_SNAPSHOT_DIR = process.env.SCHEMA_SNAPSHOT_DIR || 'schema-snapshots';
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Metadata of a catalog, or one of its schemas, at a point in time
+ */
+export interface SchemaSnapshot {
+  version: number;
+  name: string;
+  catalog: string;
+  schema?: string;
+  capturedAt: string;
+  schemas: SchemaModel[];
+  /** Parts of the metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+export interface SnapshotSummary {
+  name: string;
+  catalog: string;
+  schema?: string;
+  capturedAt: string;
+  tables: number;
+}
+
+/**
+ * Directory of the current caller's snapshots. Each set of credentials gets its
+ * own, so users never see snapshots captured with someone else's.
+ */
+function snapshotDir(): string {
+  return path.join(SCHEMA_SNAPSHOT_DIR, cdataClient.callerIdentity());
+}
+
+/**
+ * Snapshot names become file names, so only allow characters that are safe in one
+ */
+function snapshotPath(name: string): string {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    throw new Error(
+      `Invalid snapshot name "${name}": use letters, digits, dots, dashes and underscores`,
+    );
+  }
+  return path.join(snapshotDir(), `${name}.json`);
+}
+
+function defaultName(catalog: string, schema: string | undefined, capturedAt: string): string {
+  const scope = [catalog, schema].filter(Boolean).join('.');
+  const time = capturedAt.replace(/[:.]/g, '-');
+  return `${scope}-${time}`.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^[^A-Za-z0-9]/, 's');
+}
+
+export function summarizeSnapshot(snapshot: SchemaSnapshot): SnapshotSummary {
+  const summary: SnapshotSummary = {
+    name: snapshot.name,
+    catalog: snapshot.catalog,
+    capturedAt: snapshot.capturedAt,
+    tables: snapshot.schemas.reduce((count, schema) => count + schema.tables.length, 0),
+  };
+  if (snapshot.schema) summary.schema = snapshot.schema;
+  return summary;
+}
+
+/**
+ * Load the current tables, columns, keys and indexes of a catalog or schema.
+ * Cached metadata of that scope is dropped first so the result is never stale.
+ */
+export async function loadLiveSnapshot(
+  catalogName: string,
+  schemaName?: string,
+  name = 'live',
+): Promise<SchemaSnapshot> {
+  cdataClient.invalidateMetadata({ catalogName, schemaName });
+  const model = await loadCatalogModel(catalogName, schemaName, { indexes: true });
+  const snapshot: SchemaSnapshot = {
+    version: SNAPSHOT_VERSION,
+    name,
+    catalog: catalogName,
+    capturedAt: new Date().toISOString(),
+    schemas: model.schemas,
+  };
+  if (schemaName) snapshot.schema = schemaName;
+  if (model.errors) snapshot.errors = model.errors;
+  return snapshot;
+}
+
+/**
+ * Capture a snapshot and write it to the caller's directory in SCHEMA_SNAPSHOT_DIR
+ * @param name File name without extension; derived from the scope and time when omitted
+ * @throws When a snapshot with that name already exists
+ */
+export async function captureSnapshot(
+  catalogName: string,
+  schemaName?: string,
+  name?: string,
+): Promise<{ snapshot: SchemaSnapshot; file: string }> {
+  const snapshot = await loadLiveSnapshot(catalogName, schemaName);
+  snapshot.name = name ?? defaultName(catalogName, schemaName, snapshot.capturedAt);
+  const file = snapshotPath(snapshot.name);
+
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  try {
+    await fs.promises.writeFile(file, JSON.stringify(snapshot, null, 2), { flag: 'wx' });
+  } catch (err: any) {
+    if (err.code === 'EEXIST') {
+      throw new Error(`Snapshot "${snapshot.name}" already exists`);
+    }
+    throw err;
+  }
+  return { snapshot, file };
+}
+
+/**
+ * Read a snapshot written by `captureSnapshot`
+ */
+export async function readSnapshot(name: string): Promise<SchemaSnapshot> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(snapshotPath(name), 'utf8');
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      const available = (await listSnapshots()).map(snapshot => snapshot.name);
+      throw new Error(
+        `Snapshot "${name}" not found. Available snapshots: ${available.join(', ') || 'none'}`,
+      );
+    }
+    throw err;
+  }
+
+  const snapshot = JSON.parse(content) as SchemaSnapshot;
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot "${name}" has unsupported version ${snapshot.version}`);
+  }
+  return snapshot;
+}
+
+/**
+ * Summaries of the caller's snapshots, oldest first. Files that are not
+ * readable snapshots are skipped.
+ */
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  const dir = snapshotDir();
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const summaries: SnapshotSummary[] = [];
+  for (const file of files.filter(file => file.endsWith('.json'))) {
+    try {
+      const content = await fs.promises.readFile(path.join(dir, file), 'utf8');
+      const snapshot = JSON.parse(content) as SchemaSnapshot;
+      if (snapshot.version === SNAPSHOT_VERSION) {
+        summaries.push(summarizeSnapshot(snapshot));
+      }
+    } catch {
+      // Not a snapshot
+    }
+  }
+  return summaries.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
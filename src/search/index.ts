@@ -0,0 +1,4 @@
+export { MetadataIndex } from './metadataIndex';
+export type { MetadataDocument, SearchMatch, SearchOptions } from './metadataIndex';
+export { clearSearchIndex, loadMetadataIndex } from './indexBuilder';
+export type { LoadedIndex } from './indexBuilder';
@@ -0,0 +1,135 @@
+import { cdataClient, toRecords } from '../client';
+import { raceSignal } from '../utils/abort';
+import { startProgress } from '../utils/progress';
+import { getRequestContext, runWithRequestContext } from '../utils/requestContext';
+import { warn } from '../utils/logger';
+import { MetadataDocument, MetadataIndex } from './metadataIndex';
+
+const SEARCH_INDEX_TTL_MS = parseInt(process.env.SEARCH_INDEX_TTL_MS || '600000');
+
+/**
+ * A search index together with the catalogs that could not be scanned
+ */
+export interface LoadedIndex {
+  index: MetadataIndex;
+  builtAt: string;
+  /** Error messages of catalogs left out of the index, keyed by catalog */
+  errors: Record<string, string>;
+}
+
+interface CachedIndex extends LoadedIndex {
+  expiresAt: number;
+}
+
+const indexes = new Map<string, Promise<CachedIndex>>();
+
+/**
+ * Index the tables and columns of one catalog
+ */
+async function scanCatalog(catalog: string): Promise<MetadataDocument[]> {
+  const [tables, columns] = await Promise.all([
+    cdataClient.getTables(catalog),
+    cdataClient.getColumns(catalog),
+  ]);
+  const documents: MetadataDocument[] = toRecords(tables).map(row => ({
+    kind: 'table',
+    catalog: row.TABLE_CATALOG ?? catalog,
+    schema: row.TABLE_SCHEMA,
+    table: row.TABLE_NAME,
+    type: row.TABLE_TYPE,
+    description: row.REMARKS ?? undefined,
+  }));
+  for (const row of toRecords(columns)) {
+    documents.push({
+      kind: 'column',
+      catalog: row.TABLE_CATALOG ?? catalog,
+      schema: row.TABLE_SCHEMA,
+      table: row.TABLE_NAME,
+      column: row.COLUMN_NAME,
+      type: row.TYPE_NAME,
+      description: row.REMARKS ?? undefined,
+    });
+  }
+  return documents;
+}
+
+async function buildIndex(): Promise<CachedIndex> {
+  const catalogs = toRecords(await cdataClient.getCatalogs()).map(row => row.TABLE_CATALOG);
+  const documents: MetadataDocument[] = [];
+  const errors: Record<string, string> = {};
+  const progress = startProgress(catalogs.length, `Scanning ${catalogs.length} catalogs`);
+  let tables = 0;
+
+  // One catalog at a time keeps the load on Connect Cloud predictable
+  for (const [position, catalog] of catalogs.entries()) {
+    try {
+      const scanned = await scanCatalog(catalog);
+      documents.push(...scanned);
+      tables += scanned.filter(document => document.kind === 'table').length;
+    } catch (err: any) {
+      warn(`Could not index catalog ${catalog}: ${err.message}`);
+      errors[catalog] = err.message;
+    }
+    progress.advance(
+      `${errors[catalog] ? 'Could not scan' : 'Scanned'} catalog ${catalog} ` +
+        `(${position + 1} of ${catalogs.length}, ${tables} tables so far)`,
+    );
+  }
+
+  return {
+    index: new MetadataIndex(documents),
+    builtAt: new Date().toISOString(),
+    errors,
+    expiresAt: Date.now() + SEARCH_INDEX_TTL_MS,
+  };
+}
+
+/**
+ * Hash of the caller's credentials; every set of credentials has an index of
+ * its own, so a known username with the wrong token never sees another index
+ */
+function indexOwner(): string {
+  return cdataClient.callerIdentity();
+}
+
+/**
+ * Get the search index of the current user, building it from getCatalogs,
+ * getTables and getColumns when it is missing or older than SEARCH_INDEX_TTL_MS
+ */
+export async function loadMetadataIndex(): Promise<LoadedIndex> {
+  const owner = indexOwner();
+  const cached = indexes.get(owner);
+  const context = getRequestContext();
+  if (cached) {
+    // A failed build is replaced below; only the caller's own abort is raised
+    const loaded = await raceSignal(
+      cached.catch(() => undefined),
+      context?.signal,
+    );
+    if (loaded && loaded.expiresAt > Date.now()) {
+      return loaded;
+    }
+    if (indexes.has(owner) && indexes.get(owner) !== cached) {
+      // Another caller started a new build while this one was waiting
+      return loadMetadataIndex();
+    }
+  }
+
+  // The build is shared by every concurrent search of this user, so it runs
+  // without the caller's signal; each caller only stops waiting for it
+  const building = runWithRequestContext({ requestId: null, ...context, signal: undefined }, () =>
+    buildIndex(),
+  );
+  indexes.set(owner, building);
+  building.catch(() => {
+    if (indexes.get(owner) === building) indexes.delete(owner);
+  });
+  return raceSignal(building, context?.signal);
+}
+
+/**
+ * Drop the search index of the current user so their next search rebuilds it
+ */
+export function clearSearchIndex(): void {
+  indexes.delete(indexOwner());
+}
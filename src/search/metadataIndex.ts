@@ -0,0 +1,187 @@
+import { editDistance, normalizeWord, splitWords } from '../utils/textMatching';
+
+/**
+ * A table or column that can be found with `searchMetadata`
+ */
+export interface MetadataDocument {
+  kind: 'table' | 'column';
+  catalog: string;
+  schema: string;
+  table: string;
+  column?: string;
+  type?: string;
+  description?: string;
+}
+
+export interface SearchMatch extends MetadataDocument {
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  kind?: 'table' | 'column';
+  catalogName?: string;
+}
+
+interface Posting {
+  document: number;
+  weight: number;
+}
+
+// How much each field of a document counts towards its term weights
+const NAME_WEIGHT = 3;
+const TABLE_CONTEXT_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 1;
+
+// How much a query word counts when it only approximately matches a term
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.5;
+
+function terms(text: string | undefined): string[] {
+  return text ? splitWords(text).map(normalizeWord) : [];
+}
+
+/**
+ * How well a query word matches an indexed term: 1 for the same word, less
+ * for a prefix or a word within a small edit distance, 0 otherwise
+ */
+function termSimilarity(word: string, term: string): number {
+  if (word === term) return 1;
+  if (word.length >= 3 && term.length >= 3 && (term.startsWith(word) || word.startsWith(term))) {
+    return PREFIX_MATCH;
+  }
+  const allowed = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (allowed > 0 && Math.abs(word.length - term.length) <= allowed) {
+    return editDistance(word, term) <= allowed ? FUZZY_MATCH : 0;
+  }
+  return 0;
+}
+
+/**
+ * TF-IDF index over table names, column names and descriptions. Names are split
+ * on camelCase and snake_case boundaries, so "customer email" finds
+ * `CustomerEmail` and `customer_email_address`.
+ */
+export class MetadataIndex {
+  readonly documents: MetadataDocument[] = [];
+  private readonly postings = new Map<string, Posting[]>();
+  private readonly norms: number[] = [];
+
+  constructor(documents: MetadataDocument[]) {
+    for (const document of documents) {
+      this.add(document);
+    }
+    this.computeNorms();
+  }
+
+  get tableCount(): number {
+    return this.documents.filter(document => document.kind === 'table').length;
+  }
+
+  get columnCount(): number {
+    return this.documents.length - this.tableCount;
+  }
+
+  /**
+   * Rank the documents that match a free-text query
+   */
+  search(query: string, options: SearchOptions = {}): SearchMatch[] {
+    const words = [...new Set(terms(query))];
+    if (words.length === 0) {
+      return [];
+    }
+
+    // For every query word, the best weighted match in each document
+    const scores = new Map<number, { score: number; matched: number }>();
+    for (const word of words) {
+      const best = new Map<number, number>();
+      for (const [term, postings] of this.postings) {
+        const similarity = termSimilarity(word, term);
+        if (similarity === 0) continue;
+        const idf = this.idf(postings.length);
+        for (const { document, weight } of postings) {
+          const value = similarity * weight * idf;
+          if (value > (best.get(document) ?? 0)) best.set(document, value);
+        }
+      }
+      for (const [document, value] of best) {
+        const entry = scores.get(document) ?? { score: 0, matched: 0 };
+        entry.score += value;
+        entry.matched++;
+        scores.set(document, entry);
+      }
+    }
+
+    const phrase = words.join('');
+    const matches: SearchMatch[] = [];
+    for (const [index, { score, matched }] of scores) {
+      const document = this.documents[index];
+      if (options.kind && document.kind !== options.kind) continue;
+      if (
+        options.catalogName &&
+        document.catalog.toLowerCase() !== options.catalogName.toLowerCase()
+      ) {
+        continue;
+      }
+
+      // Prefer documents that match every query word, and exact name matches above all
+      const coverage = (matched / words.length) ** 2;
+      const name = terms(document.column ?? document.table).join('');
+      const exact = name === phrase ? 2 : 1;
+      matches.push({
+        ...document,
+        score: Math.round((score / this.norms[index]) * coverage * exact * 1000) / 1000,
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.table.localeCompare(b.table))
+      .slice(0, options.limit ?? 20);
+  }
+
+  private add(document: MetadataDocument): void {
+    const index = this.documents.length;
+    this.documents.push(document);
+
+    const weights = new Map<string, number>();
+    const addTerms = (text: string | undefined, weight: number) => {
+      for (const term of terms(text)) {
+        weights.set(term, (weights.get(term) ?? 0) + weight);
+      }
+    };
+    if (document.kind === 'table') {
+      addTerms(document.table, NAME_WEIGHT);
+    } else {
+      addTerms(document.column, NAME_WEIGHT);
+      addTerms(document.table, TABLE_CONTEXT_WEIGHT);
+    }
+    addTerms(document.description, DESCRIPTION_WEIGHT);
+
+    for (const [term, weight] of weights) {
+      const postings = this.postings.get(term) ?? [];
+      postings.push({ document: index, weight });
+      this.postings.set(term, postings);
+    }
+  }
+
+  private idf(documentFrequency: number): number {
+    return Math.log(1 + this.documents.length / documentFrequency);
+  }
+
+  /**
+   * Length of each document's TF-IDF vector, so long descriptions do not
+   * outrank short, precise names
+   */
+  private computeNorms(): void {
+    const sums = new Array<number>(this.documents.length).fill(0);
+    for (const postings of this.postings.values()) {
+      const idf = this.idf(postings.length);
+      for (const { document, weight } of postings) {
+        sums[document] += (weight * idf) ** 2;
+      }
+    }
+    for (const [index, sum] of sums.entries()) {
+      this.norms[index] = Math.sqrt(sum) || 1;
+    }
+  }
+}
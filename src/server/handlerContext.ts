@@ -0,0 +1,125 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ClientCapabilities,
+  ElicitResultSchema,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { linkSignals, RequestCancelledError } from '../utils/abort';
+import {
+  credentialsFromAuthorization,
+  RequestContext,
+  runWithRequestContext,
+} from '../utils/requestContext';
+
+export type HandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * One controller per open session, aborted when the session is closed so its
+ * in-flight requests stop instead of running to completion for nobody. Created
+ * by `openSession` and removed by `closeSession`.
+ */
+const sessionControllers = new Map<string, AbortController>();
+
+function sessionSignal(sessionId: string | undefined): AbortSignal | undefined {
+  return sessionId ? sessionControllers.get(sessionId)?.signal : undefined;
+}
+
+/**
+ * Capabilities each HTTP session declared in its initialize request. All
+ * sessions share one McpServer, whose own copy only reflects the last client
+ * to initialize.
+ */
+const sessionCapabilities = new Map<string, ClientCapabilities>();
+
+/**
+ * Track a new session: remember the capabilities its client declared when it
+ * initialized, and create the controller that aborts its requests on close
+ * @param sessionId The ID of the new session
+ * @param capabilities The `capabilities` of its initialize request
+ */
+export function openSession(sessionId: string, capabilities: ClientCapabilities | undefined): void {
+  sessionCapabilities.set(sessionId, capabilities ?? {});
+  sessionControllers.set(sessionId, new AbortController());
+}
+
+/**
+ * The capabilities of the client that sent a request: those of its session, or
+ * those of the only client when the transport has no sessions
+ */
+function clientCapabilities(
+  server: McpServer,
+  sessionId: string | undefined,
+): ClientCapabilities | undefined {
+  return sessionId ? sessionCapabilities.get(sessionId) : server.server.getClientCapabilities();
+}
+
+/**
+ * Forget a session and abort every in-flight request of it. Called when an
+ * HTTP session is deleted or its transport closes.
+ * @param sessionId The ID of the closed session
+ */
+export function closeSession(sessionId: string): void {
+  sessionCapabilities.delete(sessionId);
+  const controller = sessionControllers.get(sessionId);
+  sessionControllers.delete(sessionId);
+  controller?.abort(
+    new RequestCancelledError(`Request cancelled: session ${sessionId} was closed`),
+  );
+}
+
+/**
+ * Build the request context for an MCP request from the handler's `extra` argument
+ * @param server The MCP server handling the request
+ * @param extra The extra argument passed to tool, resource and prompt handlers
+ */
+export function requestContextFromExtra(server: McpServer, extra: HandlerExtra): RequestContext {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    requestId: extra.requestId,
+    sessionId: extra.sessionId,
+    credentials: credentialsFromAuthorization(extra.requestInfo?.headers?.authorization),
+    signal: extra.signal,
+    elicit: clientCapabilities(server, extra.sessionId)?.elicitation
+      ? (params, timeoutMs) =>
+          extra.sendRequest({ method: 'elicitation/create', params }, ElicitResultSchema, {
+            signal: extra.signal,
+            timeout: timeoutMs,
+          })
+      : undefined,
+    notifyProgress:
+      progressToken !== undefined
+        ? (progress, total, message) =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            })
+        : undefined,
+  };
+}
+
+/**
+ * Wrap a tool or prompt handler so it runs inside a request context built from
+ * the MCP request. Handlers read the request ID, credentials and abort signal
+ * from that context instead of shared global state. The signal aborts when the
+ * client cancels the request or its session is closed.
+ * @param server The MCP server the handler is registered on
+ * @param handler The handler to wrap
+ */
+export function withRequestContext<Args, Result>(
+  server: McpServer,
+  handler: (args: Args, extra: HandlerExtra) => Result,
+) {
+  return async (args: Args, extra: HandlerExtra): Promise<Awaited<Result>> => {
+    const context = requestContextFromExtra(server, extra);
+    const linked = linkSignals([context.signal, sessionSignal(extra.sessionId)]);
+    try {
+      return await runWithRequestContext({ ...context, signal: linked.signal }, () =>
+        handler(args, extra),
+      );
+    } finally {
+      linked.dispose();
+    }
+  };
+}
@@ -3,12 +3,20 @@ import { config } from 'dotenv';
 
 config();
 
-const server = new McpServer({
-  name: 'CData Connect Cloud',
-  version: '1.0.5',
-  capabilities: {
-    tools: {},
+const server = new McpServer(
+  {
+    name: 'CData Connect Cloud',
+    version: '1.0.5',
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {},
+    },
   },
-});
+  {
+    // Registering several tools at once sends a single tools/list_changed
+    debouncedNotificationMethods: ['notifications/tools/list_changed'],
+  },
+);
 
 export { server };
@@ -0,0 +1,320 @@
+import { z } from 'zod';
+import { SQL_DIALECTS } from '../ddl';
+import { DICTIONARY_FORMATS } from '../dictionary';
+import { BULK_WRITE_MODES } from '../tools/query';
+
+const columnSchema = z.object({
+  name: z.string().describe('Column name'),
+  type: z.string().optional().describe('Connect Cloud data type name'),
+});
+
+const resultSetSchema = z.object({
+  columns: z.array(columnSchema),
+  rows: z.array(z.record(z.unknown())).describe('Rows keyed by column name'),
+  affectedRows: z.number().optional().describe('Rows affected by a write statement'),
+});
+
+/**
+ * Output of the metadata tools: one table of rows keyed by column name
+ */
+export const tabularOutputShape = {
+  columns: z.array(columnSchema),
+  rows: z.array(z.record(z.unknown())).describe('Rows keyed by column name'),
+};
+
+/**
+ * Output of `queryData` and `execData`: one entry per result set, the paging
+ * fields, or a write preview when the call needs confirmation
+ */
+export const queryOutputShape = {
+  results: z.array(resultSetSchema).optional(),
+  offset: z.number().optional(),
+  hasMore: z.boolean().optional(),
+  nextCursor: z.string().optional(),
+  truncated: z
+    .boolean()
+    .optional()
+    .describe('Rows past the in-memory paging limit were dropped; narrow the query to see them'),
+  confirmationRequired: z.boolean().optional(),
+  confirmationToken: z.string().optional(),
+  expiresAt: z.string().optional(),
+  message: z.string().optional(),
+  statements: z.array(z.record(z.unknown())).optional(),
+  procedure: z.string().optional(),
+  parameters: z.record(z.unknown()).optional(),
+};
+
+/**
+ * Output of `bulkWrite`: the outcome of every row, or a write preview when the
+ * call needs confirmation
+ */
+export const bulkWriteShape = {
+  table: z.string().optional(),
+  mode: z.enum(BULK_WRITE_MODES).optional(),
+  keyColumns: z.array(z.string()).optional(),
+  totalRows: z.number().optional(),
+  succeeded: z.number().optional(),
+  failed: z.number().optional().describe('Rows sent on their own and rejected by the source'),
+  unknown: z
+    .number()
+    .optional()
+    .describe(
+      'Rows of a failed, cancelled or timed out batch that may or may not have been written',
+    ),
+  invalid: z.number().optional().describe('Rows rejected before anything was sent'),
+  skipped: z.number().optional().describe('Rows not sent because of an earlier error'),
+  batches: z.number().optional().describe('Requests sent to Connect Cloud'),
+  rows: z
+    .array(
+      z.object({
+        index: z.number().describe('Position of the row in the input array'),
+        status: z.enum(['ok', 'invalid', 'failed', 'unknown', 'skipped']),
+        affectedRows: z.number().optional(),
+        error: z.string().optional(),
+      }),
+    )
+    .optional(),
+  confirmationRequired: z.boolean().optional(),
+  confirmationToken: z.string().optional(),
+  expiresAt: z.string().optional(),
+  message: z.string().optional(),
+  statements: z.array(z.record(z.unknown())).optional(),
+};
+
+const tableReferenceSchema = z.object({
+  catalog: z.string(),
+  schema: z.string(),
+  table: z.string(),
+  columns: z.array(z.string()),
+});
+
+const foreignKeySchema = z.object({
+  name: z.string().optional(),
+  columns: z.array(z.string()).describe("This table's columns in the key"),
+  references: tableReferenceSchema.optional().describe('Referenced table and columns'),
+  referencedBy: tableReferenceSchema.optional().describe('Referencing table and columns'),
+});
+
+/**
+ * Output of `describeTable`: the merged columns, keys and indexes of one table
+ */
+export const tableDescriptionShape = {
+  catalog: z.string(),
+  schema: z.string(),
+  table: z.string(),
+  type: z.string().optional(),
+  description: z.string().optional(),
+  columns: z.array(
+    z.object({
+      name: z.string(),
+      type: z.string().optional(),
+      nullable: z.boolean(),
+      primaryKey: z.boolean().optional(),
+      size: z.number().optional(),
+      default: z.string().optional(),
+      autoIncrement: z.boolean().optional(),
+      description: z.string().optional(),
+    }),
+  ),
+  primaryKey: z.array(z.string()),
+  foreignKeys: z.array(foreignKeySchema),
+  referencedBy: z.array(foreignKeySchema),
+  indexes: z.array(
+    z.object({ name: z.string(), unique: z.boolean(), columns: z.array(z.string()) }),
+  ),
+  errors: z
+    .record(z.string())
+    .optional()
+    .describe('Parts that could not be loaded, such as indexes on sources without index support'),
+};
+
+/**
+ * Output of `refreshMetadata`
+ */
+export const refreshMetadataShape = {
+  catalogName: z.string().optional(),
+  schemaName: z.string().optional(),
+  invalidatedEntries: z.number().describe('Number of cached metadata responses dropped'),
+  message: z.string(),
+  procedureTools: z
+    .object({
+      added: z.array(z.string()),
+      removed: z.array(z.string()),
+      updated: z.array(z.string()),
+      total: z.number(),
+    })
+    .optional()
+    .describe('Generated procedure tools changed by the refresh, when PROCEDURE_TOOLS is on'),
+};
+
+/**
+ * Output of `searchMetadata`: ranked tables and columns
+ */
+export const searchOutputShape = {
+  query: z.string(),
+  matches: z.array(
+    z.object({
+      kind: z.enum(['table', 'column']),
+      catalog: z.string(),
+      schema: z.string(),
+      table: z.string(),
+      column: z.string().optional(),
+      type: z.string().optional(),
+      description: z.string().optional(),
+      score: z.number(),
+    }),
+  ),
+  indexedTables: z.number(),
+  indexedColumns: z.number(),
+  indexBuiltAt: z.string(),
+  errors: z.record(z.string()).optional().describe('Catalogs that could not be indexed'),
+};
+
+/**
+ * Output of `generateErDiagram`
+ */
+export const erDiagramShape = {
+  catalogName: z.string(),
+  schemaName: z.string(),
+  format: z.enum(['mermaid', 'plantuml', 'dot']),
+  diagram: z.string().describe('Diagram source in the requested format'),
+  tables: z.number(),
+  relationships: z.number().describe('Foreign keys drawn between the tables'),
+  missingTables: z.array(z.string()).optional(),
+  errors: z.record(z.string()).optional().describe('Metadata that could not be loaded'),
+};
+
+/**
+ * Output of `findJoinPath`
+ */
+export const joinPathShape = {
+  catalogName: z.string(),
+  schemaName: z.string(),
+  tables: z.array(z.string()),
+  steps: z
+    .array(
+      z.object({
+        from: z.string(),
+        to: z.string(),
+        foreignKey: z.string().optional(),
+        on: z.array(z.tuple([z.string(), z.string()])),
+      }),
+    )
+    .describe('Foreign keys to follow, in join order'),
+  from: z.string(),
+  joins: z.array(z.string()).describe('JOIN ... ON ... clauses, in order'),
+  sql: z.string(),
+  unreachable: z.array(z.string()).optional().describe('Tables no foreign keys lead to'),
+  errors: z.record(z.string()).optional().describe('Metadata that could not be loaded'),
+};
+
+const snapshotSummarySchema = z.object({
+  name: z.string(),
+  catalog: z.string(),
+  schema: z.string().optional(),
+  capturedAt: z.string(),
+  tables: z.number(),
+});
+
+/**
+ * Output of `snapshotSchema`
+ */
+export const snapshotShape = {
+  ...snapshotSummarySchema.shape,
+  file: z.string().describe('Path of the written snapshot file'),
+  schemas: z.number(),
+  errors: z.record(z.string()).optional().describe('Metadata that could not be loaded'),
+};
+
+const modelColumnSchema = z
+  .object({ name: z.string(), type: z.string().optional(), nullable: z.boolean() })
+  .passthrough();
+
+const modelRelationshipSchema = z
+  .object({
+    table: z.string(),
+    columns: z.array(z.string()),
+    referencedTable: z.string(),
+    referencedColumns: z.array(z.string()),
+  })
+  .passthrough();
+
+const modelIndexSchema = z.object({
+  name: z.string(),
+  unique: z.boolean(),
+  columns: z.array(z.string()),
+});
+
+const tableSummarySchema = z.object({
+  schema: z.string(),
+  table: z.string(),
+  columns: z.number(),
+});
+
+const valueSchema = z.union([z.string(), z.number(), z.boolean()]).optional();
+
+/**
+ * Output of `diffSchema`
+ */
+export const schemaDiffShape = {
+  base: snapshotSummarySchema,
+  target: snapshotSummarySchema,
+  identical: z.boolean(),
+  addedTables: z.array(tableSummarySchema),
+  removedTables: z.array(tableSummarySchema),
+  changedTables: z.array(
+    z.object({
+      schema: z.string(),
+      table: z.string(),
+      addedColumns: z.array(modelColumnSchema).optional(),
+      removedColumns: z.array(modelColumnSchema).optional(),
+      changedColumns: z
+        .array(
+          z.object({
+            column: z.string(),
+            changes: z.record(z.object({ before: valueSchema, after: valueSchema })),
+          }),
+        )
+        .optional(),
+      primaryKey: z.object({ before: z.array(z.string()), after: z.array(z.string()) }).optional(),
+      addedForeignKeys: z.array(modelRelationshipSchema).optional(),
+      removedForeignKeys: z.array(modelRelationshipSchema).optional(),
+      addedIndexes: z.array(modelIndexSchema).optional(),
+      removedIndexes: z.array(modelIndexSchema).optional(),
+    }),
+  ),
+  unchangedTables: z.number(),
+  skipped: z
+    .array(z.string())
+    .optional()
+    .describe('Parts not compared because a snapshot could not load them'),
+};
+
+/**
+ * Output of `generateDdl`
+ */
+export const ddlShape = {
+  catalogName: z.string(),
+  schemaName: z.string(),
+  dialect: z.enum(SQL_DIALECTS),
+  ddl: z.string().describe('CREATE TABLE, CREATE INDEX and ALTER TABLE statements'),
+  tables: z.array(z.string()).describe('Tables in creation order'),
+  unmappedTypes: z
+    .array(z.object({ table: z.string(), column: z.string(), type: z.string() }))
+    .describe("Columns created with the dialect's text type because their type is unknown"),
+  warnings: z.array(z.string()),
+  missingTables: z.array(z.string()).optional(),
+  errors: z.record(z.string()).optional().describe('Metadata that could not be loaded'),
+};
+
+/**
+ * Output of `exportDataDictionary`
+ */
+export const dataDictionaryShape = {
+  catalogName: z.string(),
+  schemaName: z.string().optional(),
+  format: z.enum(DICTIONARY_FORMATS),
+  document: z.string().describe('Markdown text, or JSON for the jsonschema and openapi formats'),
+  tables: z.number(),
+  errors: z.record(z.string()).optional().describe('Metadata that could not be loaded'),
+};
@@ -0,0 +1,409 @@
+import { createHash } from 'crypto';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  cdataClient,
+  CDataParameters,
+  ProcedureParameterRow,
+  ProcedureRow,
+  toRecords,
+} from '../client';
+import { canonicalType, CanonicalType, parameterTypeCode } from '../schema';
+import { execData, formatResult, OUTPUT_FORMATS, structuredResult } from '../tools/query';
+import { procedureAllowed } from '../tools/query/readOnly';
+import { info, warn } from '../utils/logger';
+import { runWithRequestContext } from '../utils/requestContext';
+import { quoteIdentifier } from '../utils/sqlIdentifiers';
+import { withRequestContext } from './handlerContext';
+import { queryOutputShape } from './outputSchemas';
+import { EXEC_ANNOTATIONS } from './toolConfig';
+
+/**
+ * When enabled, every procedure of PROCEDURE_TOOL_CATALOGS gets a tool of its own
+ */
+export const PROCEDURE_TOOLS = process.env.PROCEDURE_TOOLS === 'true';
+
+const PROCEDURE_TOOL_CATALOGS = (process.env.PROCEDURE_TOOL_CATALOGS || '')
+  .split(',')
+  .map(catalog => catalog.trim())
+  .filter(Boolean);
+
+// MCP clients commonly reject tool names longer than this
+const TOOL_NAME_MAX_LENGTH = 64;
+
+// Parameter directions reported in COLUMN_TYPE that are not passed in
+const RESULT_DIRECTIONS = new Set([3, 4, 5]);
+
+const FORMAT_HINTS: Partial<Record<CanonicalType, string>> = {
+  date: 'YYYY-MM-DD',
+  time: 'HH:MM:SS',
+  timestamp: 'ISO 8601 date and time',
+  timestamptz: 'ISO 8601 date and time with offset',
+  binary: 'base64',
+};
+
+interface ProcedureParameter {
+  /** Name without the leading @ */
+  name: string;
+  type?: CanonicalType;
+  typeName?: string;
+  required: boolean;
+  description?: string;
+}
+
+interface ProcedureDefinition {
+  toolName: string;
+  catalog: string;
+  schema: string;
+  procedure: string;
+  description?: string;
+  parameters: ProcedureParameter[];
+}
+
+interface ProcedureTool {
+  catalog: string;
+  tool: RegisteredTool;
+  /** Serialized definition, compared on refresh to detect changed parameters */
+  signature: string;
+}
+
+/**
+ * Names of the procedure tools added, removed and re-registered by a refresh
+ */
+export interface ProcedureToolChanges {
+  added: string[];
+  removed: string[];
+  updated: string[];
+  /** Number of procedure tools exposed after the refresh */
+  total: number;
+}
+
+let target: { server: McpServer; isEnabled: (name: string) => boolean } | undefined;
+const procedureTools = new Map<string, ProcedureTool>();
+let pendingSync: Promise<unknown> = Promise.resolve();
+
+function isNullable(row: ProcedureParameterRow): boolean {
+  return row.IS_NULLABLE === true || String(row.IS_NULLABLE).toUpperCase() === 'YES';
+}
+
+/**
+ * A tool name made of the catalog, schema and procedure names. Names that are
+ * too long or already taken are shortened and made unique with a hash.
+ */
+function toolName(catalog: string, schema: string, procedure: string, taken: Set<string>): string {
+  let name = `proc_${catalog}_${schema}_${procedure}`.replace(/[^A-Za-z0-9_-]/g, '_');
+  if (name.length > TOOL_NAME_MAX_LENGTH || taken.has(name.toLowerCase())) {
+    const hash = createHash('sha1')
+      .update([catalog, schema, procedure].join('\u0000'))
+      .digest('hex')
+      .slice(0, 8);
+    name = `${name.slice(0, TOOL_NAME_MAX_LENGTH - hash.length - 1)}_${hash}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+function toParameter(row: ProcedureParameterRow): ProcedureParameter {
+  const type = canonicalType({
+    name: row.COLUMN_NAME,
+    type: row.TYPE_NAME,
+    dataType: row.DATA_TYPE,
+    nullable: isNullable(row),
+  });
+  const parameter: ProcedureParameter = {
+    name: row.COLUMN_NAME.replace(/^@/, ''),
+    required: !isNullable(row),
+  };
+  if (type) parameter.type = type;
+  if (row.TYPE_NAME) parameter.typeName = row.TYPE_NAME;
+  if (row.REMARKS) parameter.description = row.REMARKS;
+  return parameter;
+}
+
+/**
+ * List the procedures of a catalog with their input parameters
+ */
+async function loadProcedures(catalog: string, taken: Set<string>): Promise<ProcedureDefinition[]> {
+  const [procedures, parameters] = await Promise.all([
+    cdataClient.getProcedures(catalog),
+    cdataClient.getProcedureParameters(catalog),
+  ]);
+  const key = (row: ProcedureRow | ProcedureParameterRow) =>
+    `${row.PROCEDURE_SCHEMA}\u0000${row.PROCEDURE_NAME}`;
+
+  const parametersByProcedure = new Map<string, ProcedureParameterRow[]>();
+  for (const row of toRecords(parameters)) {
+    if (row.COLUMN_TYPE !== undefined && RESULT_DIRECTIONS.has(row.COLUMN_TYPE)) continue;
+    parametersByProcedure.set(key(row), [...(parametersByProcedure.get(key(row)) ?? []), row]);
+  }
+
+  return toRecords(procedures)
+    .filter(row => row.PROCEDURE_CATALOG === catalog)
+    .map(row => {
+      const definition: ProcedureDefinition = {
+        toolName: toolName(catalog, row.PROCEDURE_SCHEMA, row.PROCEDURE_NAME, taken),
+        catalog,
+        schema: row.PROCEDURE_SCHEMA,
+        procedure: row.PROCEDURE_NAME,
+        parameters: (parametersByProcedure.get(key(row)) ?? [])
+          .sort((a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0))
+          .map(toParameter),
+      };
+      if (row.REMARKS) definition.description = row.REMARKS;
+      return definition;
+    });
+}
+
+/**
+ * The zod schema accepted for a parameter of this type
+ */
+function valueSchema(type: CanonicalType | undefined): z.ZodTypeAny {
+  switch (type) {
+    case 'tinyint':
+    case 'smallint':
+    case 'integer':
+      return z.number().int();
+    case 'bigint':
+      // Values beyond 2^53 lose precision as JSON numbers
+      return z.union([z.number().int(), z.string().regex(/^-?\d+$/)]);
+    case 'float':
+    case 'double':
+      return z.number();
+    case 'decimal':
+      return z.union([z.number(), z.string().regex(/^-?\d+(\.\d+)?$/)]);
+    case 'boolean':
+      return z.boolean();
+    case 'date':
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+    case 'uuid':
+      return z.string().uuid();
+    case 'json':
+      return z.any();
+    case undefined:
+      return z.union([z.string(), z.number(), z.boolean()]);
+    default:
+      return z.string();
+  }
+}
+
+function parameterSchema(parameter: ProcedureParameter): z.ZodTypeAny {
+  const type = [parameter.typeName, parameter.type && FORMAT_HINTS[parameter.type]]
+    .filter(Boolean)
+    .join(', ');
+  const description = [parameter.description, type && `(${type})`].filter(Boolean).join(' ');
+  const schema = valueSchema(parameter.type);
+  return (parameter.required ? schema : schema.nullable().optional()).describe(
+    description || parameter.name,
+  );
+}
+
+/**
+ * Convert the arguments of a procedure tool into typed `execData` parameters
+ */
+function toCDataParameters(
+  definition: ProcedureDefinition,
+  values: Record<string, unknown> = {},
+): CDataParameters {
+  const parameters: CDataParameters = {};
+  for (const parameter of definition.parameters) {
+    const value = values[parameter.name];
+    if (value === undefined) continue;
+    parameters[`@${parameter.name}`] = {
+      dataType: parameterTypeCode(parameter.type),
+      value:
+        parameter.type === 'json' && value !== null && typeof value !== 'string'
+          ? JSON.stringify(value)
+          : value,
+    };
+  }
+  return parameters;
+}
+
+function registerProcedureTool(server: McpServer, definition: ProcedureDefinition) {
+  const qualifiedName = `${definition.catalog}.${definition.schema}.${definition.procedure}`;
+  const procedure = [definition.catalog, definition.schema, definition.procedure]
+    .map(quoteIdentifier)
+    .join('.');
+  const shape = Object.fromEntries(
+    definition.parameters.map(parameter => [parameter.name, parameterSchema(parameter)]),
+  );
+  const parametersSchema = z
+    .object(shape)
+    .strict()
+    .describe(`Parameters of ${definition.procedure}`);
+  const required = definition.parameters.some(parameter => parameter.required);
+
+  return server.registerTool(
+    definition.toolName,
+    {
+      title: `Execute ${definition.procedure}`,
+      description: [`Execute the stored procedure ${qualifiedName}.`, definition.description]
+        .filter(Boolean)
+        .join(' '),
+      inputSchema: {
+        ...(definition.parameters.length > 0 && {
+          parameters: required ? parametersSchema : parametersSchema.optional(),
+        }),
+        format: z
+          .enum(OUTPUT_FORMATS)
+          .optional()
+          .describe(
+            'Output format for the result: json (default), compact, csv, markdown or ndjson',
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            'Token from a previous write preview. Repeat the previewed call unchanged with this token to run it',
+          ),
+      },
+      outputSchema: queryOutputShape,
+      annotations: EXEC_ANNOTATIONS,
+    },
+    withRequestContext(server, async ({ parameters, format, confirmationToken }) => {
+      try {
+        const response = await execData(
+          procedure,
+          undefined,
+          toCDataParameters(definition, parameters as Record<string, unknown> | undefined),
+          confirmationToken,
+        );
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: 'text', text: formatResult(response.result ?? {}, format) }],
+          structuredContent: structuredResult(response.result ?? {}),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
+  );
+}
+
+async function sync(catalogs: string[]): Promise<ProcedureToolChanges> {
+  const { server, isEnabled } = target!;
+  const changes: ProcedureToolChanges = { added: [], removed: [], updated: [], total: 0 };
+  const synced = new Set<string>();
+  const definitions = new Map<string, ProcedureDefinition>();
+  // Names of tools kept from catalogs that are not refreshed, so new names do not clash with them
+  const taken = new Set(
+    [...procedureTools]
+      .filter(([, tool]) => !catalogs.includes(tool.catalog))
+      .map(([name]) => name.toLowerCase()),
+  );
+
+  for (const catalog of catalogs) {
+    try {
+      for (const definition of await loadProcedures(catalog, taken)) {
+        // Read-only mode would reject every call of a procedure that is not allow-listed
+        const qualifiedName = `${definition.catalog}.${definition.schema}.${definition.procedure}`;
+        if (isEnabled(definition.toolName) && procedureAllowed(qualifiedName)) {
+          definitions.set(definition.toolName, definition);
+        }
+      }
+      synced.add(catalog);
+    } catch (err: any) {
+      // Keep the tools of a catalog that cannot be listed right now
+      warn(`Could not list procedures of catalog ${catalog}: ${err.message}`);
+    }
+  }
+
+  for (const [name, existing] of procedureTools) {
+    if (synced.has(existing.catalog) && !definitions.has(name)) {
+      existing.tool.remove();
+      procedureTools.delete(name);
+      changes.removed.push(name);
+    }
+  }
+  for (const [name, definition] of definitions) {
+    const signature = JSON.stringify(definition);
+    const existing = procedureTools.get(name);
+    if (existing?.signature === signature) continue;
+    if (existing) {
+      existing.tool.remove();
+      changes.updated.push(name);
+    } else {
+      changes.added.push(name);
+    }
+    procedureTools.set(name, {
+      catalog: definition.catalog,
+      tool: registerProcedureTool(server, definition),
+      signature,
+    });
+  }
+
+  changes.total = procedureTools.size;
+  info(
+    `Procedure tools refreshed: ${changes.added.length} added, ${changes.removed.length} removed, ` +
+      `${changes.updated.length} updated, ${changes.total} total`,
+  );
+  return changes;
+}
+
+/**
+ * Re-list the procedures of the configured catalogs and add, remove or replace
+ * their tools to match. Registering and removing tools notifies connected
+ * clients with `notifications/tools/list_changed`.
+ * @param catalogName Only refresh this catalog; all configured catalogs when omitted
+ * @param refresh Drop the server's cached metadata of the catalogs first, as
+ * `refreshMetadata` only drops that of the caller
+ * @returns The changes, or undefined when procedure tools are off or the catalog is not configured
+ */
+export function syncProcedureTools(
+  catalogName?: string,
+  refresh = false,
+): Promise<ProcedureToolChanges | undefined> {
+  if (!target) {
+    return Promise.resolve(undefined);
+  }
+  const catalogs = catalogName
+    ? PROCEDURE_TOOL_CATALOGS.filter(catalog => catalog.toLowerCase() === catalogName.toLowerCase())
+    : PROCEDURE_TOOL_CATALOGS;
+  if (catalogs.length === 0) {
+    return Promise.resolve(undefined);
+  }
+
+  // Refreshes run one at a time so they never register the same tool twice. The
+  // tools are shared by every session, so procedures are listed with the server's
+  // own credentials rather than those of whoever asked for the refresh.
+  const result = pendingSync.then(() =>
+    runWithRequestContext({ requestId: null }, () => {
+      if (refresh) {
+        catalogs.forEach(catalog => cdataClient.invalidateMetadata({ catalogName: catalog }));
+      }
+      return sync(catalogs);
+    }),
+  );
+  pendingSync = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Register a tool for every procedure of PROCEDURE_TOOL_CATALOGS when
+ * PROCEDURE_TOOLS is enabled. The procedures are listed in the background so
+ * a slow connection does not delay startup.
+ * @param server The MCP server instance
+ * @param isEnabled Whether a generated tool may be exposed
+ */
+export function registerProcedureTools(server: McpServer, isEnabled: (name: string) => boolean) {
+  if (!PROCEDURE_TOOLS) {
+    return;
+  }
+  if (PROCEDURE_TOOL_CATALOGS.length === 0) {
+    warn('PROCEDURE_TOOLS is enabled but PROCEDURE_TOOL_CATALOGS is empty; no tools generated');
+    return;
+  }
+
+  target = { server, isEnabled };
+  syncProcedureTools().catch((err: Error) =>
+    warn(`Could not generate procedure tools: ${err.message}`),
+  );
+}
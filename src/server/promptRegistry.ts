@@ -0,0 +1,133 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { argumentCompleter } from '../completions';
+import {
+  auditDataQualityPrompt,
+  callProcedurePrompt,
+  describeTablePrompt,
+  exploreConnectionPrompt,
+  findJoinPathPrompt,
+  profileColumnPrompt,
+  writeQueryPrompt,
+} from '../prompts';
+import { withRequestContext } from './handlerContext';
+import { loadToolConfig, toolFilter } from './toolConfig';
+
+const catalogName = completable(
+  z.string().describe('Name of the connection (catalog)'),
+  argumentCompleter('catalogName'),
+);
+const schemaName = completable(
+  z.string().describe('Name of the schema'),
+  argumentCompleter('schemaName'),
+);
+const tableName = completable(
+  z.string().describe('Name of the table or view'),
+  argumentCompleter('tableName'),
+);
+const columnName = completable(
+  z.string().describe('Name of the column'),
+  argumentCompleter('columnName'),
+);
+const procedureName = completable(
+  z.string().describe('Name of the stored procedure'),
+  argumentCompleter('procedureName'),
+);
+
+/**
+ * Register the built-in workflow prompts with the MCP server
+ * @param server The MCP server instance
+ */
+export function registerPrompts(server: McpServer) {
+  // Tables embedded in prompts only carry sample rows when the tool configuration exposes queryData
+  const options = { includeSample: toolFilter(loadToolConfig())('queryData') };
+
+  server.registerPrompt(
+    'exploreConnection',
+    {
+      title: 'Explore a connection',
+      description: 'Summarize the tables of a connection, or of one of its schemas',
+      argsSchema: { catalogName, schemaName: schemaName.optional() },
+    },
+    withRequestContext(server, exploreConnectionPrompt),
+  );
+
+  server.registerPrompt(
+    'describeTable',
+    {
+      title: 'Describe a table',
+      description: 'Explain a table from its columns, keys and sample rows',
+      argsSchema: { catalogName, schemaName, tableName },
+    },
+    withRequestContext(server, args => describeTablePrompt(args, options)),
+  );
+
+  server.registerPrompt(
+    'writeQuery',
+    {
+      title: 'Write a query for a question',
+      description: 'Turn a question into a Connect Cloud SQL query and run it',
+      argsSchema: {
+        question: z.string().describe('The question the query should answer'),
+        catalogName,
+        schemaName: schemaName.optional(),
+        tableName: tableName.optional(),
+      },
+    },
+    withRequestContext(server, args => writeQueryPrompt(args, options)),
+  );
+
+  server.registerPrompt(
+    'findJoinPath',
+    {
+      title: 'Find join path between two tables',
+      description: 'Find the foreign keys that connect two tables and write the joins',
+      argsSchema: {
+        catalogName,
+        schemaName,
+        tableName,
+        targetTableName: completable(
+          z.string().describe('Name of the table to join to'),
+          argumentCompleter('tableName'),
+        ),
+      },
+    },
+    withRequestContext(server, args => findJoinPathPrompt(args, options)),
+  );
+
+  server.registerPrompt(
+    'auditDataQuality',
+    {
+      title: 'Audit data quality of a table',
+      description: 'Check a table for missing, duplicate, orphaned and implausible values',
+      argsSchema: { catalogName, schemaName, tableName },
+    },
+    withRequestContext(server, args => auditDataQualityPrompt(args, options)),
+  );
+
+  server.registerPrompt(
+    'profileColumn',
+    {
+      title: 'Profile a column',
+      description: 'Summarize the values of a column: nulls, distinct and frequent values, ranges',
+      argsSchema: { catalogName, schemaName, tableName, columnName },
+    },
+    withRequestContext(server, args => profileColumnPrompt(args, options)),
+  );
+
+  server.registerPrompt(
+    'callProcedure',
+    {
+      title: 'Call a stored procedure',
+      description: 'Explain the parameters of a stored procedure and call it with execData',
+      argsSchema: {
+        catalogName,
+        schemaName,
+        procedureName,
+        goal: z.string().optional().describe('What the call should achieve'),
+      },
+    },
+    withRequestContext(server, callProcedurePrompt),
+  );
+}
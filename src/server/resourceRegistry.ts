@@ -0,0 +1,133 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  listCatalogResources,
+  listSchemaResources,
+  listTableResources,
+  readCatalogResource,
+  readSchemaResource,
+  readTableResource,
+  RESOURCE_MIME_TYPE,
+  ResourceEntry,
+} from '../resources';
+import { argumentCompleter } from '../completions';
+import { runWithRequestContext } from '../utils/requestContext';
+import { error } from '../utils/logger';
+import { HandlerExtra, requestContextFromExtra } from './handlerContext';
+import { loadToolConfig, toolFilter } from './toolConfig';
+
+/**
+ * Read a URI template variable, undoing the percent-encoding used in resource URIs
+ */
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+/**
+ * Wrap a resource list callback so it runs inside a request context. A failing
+ * list is logged and left out instead of failing the whole resources/list call.
+ */
+function listCallback(server: McpServer, list: () => Promise<ResourceEntry[]>) {
+  return (extra: HandlerExtra) =>
+    runWithRequestContext(requestContextFromExtra(server, extra), async () => {
+      try {
+        return { resources: await list() };
+      } catch (err: any) {
+        error(`Failed to list resources: ${err.message}`);
+        return { resources: [] };
+      }
+    });
+}
+
+/**
+ * Wrap a resource read callback so it runs inside a request context and
+ * returns its result as JSON
+ */
+function readCallback(
+  server: McpServer,
+  read: (variables: Variables) => Promise<object>,
+): (uri: URL, variables: Variables, extra: HandlerExtra) => Promise<ReadResourceResult> {
+  return (uri, variables, extra) =>
+    runWithRequestContext(requestContextFromExtra(server, extra), async () => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: RESOURCE_MIME_TYPE,
+          text: JSON.stringify(await read(variables), null, 2),
+        },
+      ],
+    }));
+}
+
+/**
+ * Register the catalog/schema/table hierarchy as resource templates
+ * @param server The MCP server instance
+ */
+export function registerResources(server: McpServer) {
+  // Table resources only carry sample rows when the tool configuration exposes queryData
+  const includeSample = toolFilter(loadToolConfig())('queryData');
+
+  // Catalog resources
+  server.registerResource(
+    'catalog',
+    new ResourceTemplate('cdata://{catalog}', {
+      list: listCallback(server, listCatalogResources),
+      complete: { catalog: argumentCompleter('catalogName') },
+    }),
+    {
+      title: 'Catalog',
+      description: 'Schemas in a Connect Cloud connection, with the URI of each schema resource',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+    readCallback(server, variables => readCatalogResource(variable(variables, 'catalog'))),
+  );
+
+  // Schema resources
+  server.registerResource(
+    'schema',
+    new ResourceTemplate('cdata://{catalog}/{schema}', {
+      list: listCallback(server, listSchemaResources),
+      complete: {
+        catalog: argumentCompleter('catalogName'),
+        schema: argumentCompleter('schemaName'),
+      },
+    }),
+    {
+      title: 'Schema',
+      description: 'Tables and views in a schema, with the URI of each table resource',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+    readCallback(server, variables =>
+      readSchemaResource(variable(variables, 'catalog'), variable(variables, 'schema')),
+    ),
+  );
+
+  // Table resources
+  server.registerResource(
+    'table',
+    new ResourceTemplate('cdata://{catalog}/{schema}/{table}', {
+      list: listCallback(server, listTableResources),
+      complete: {
+        catalog: argumentCompleter('catalogName'),
+        schema: argumentCompleter('schemaName'),
+        table: argumentCompleter('tableName'),
+      },
+    }),
+    {
+      title: 'Table',
+      description:
+        'Column definitions, primary key, foreign keys and a few sample rows of a table or view',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+    readCallback(server, variables =>
+      readTableResource(
+        variable(variables, 'catalog'),
+        variable(variables, 'schema'),
+        variable(variables, 'table'),
+        includeSample,
+      ),
+    ),
+  );
+}
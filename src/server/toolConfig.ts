@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { error, info } from '../utils/logger';
+import { READ_ONLY } from '../tools/query/readOnly';
+
+/**
+ * Groups of tools that can be enabled together
+ */
+export const TOOLSETS: Record<string, string[]> = {
+  metadata: [
+    'getCatalogs',
+    'getSchemas',
+    'getTables',
+    'getColumns',
+    'getPrimaryKeys',
+    'getIndexes',
+    'getImportedKeys',
+    'getExportedKeys',
+    'describeTable',
+    'diffSchema',
+    'exportDataDictionary',
+    'findJoinPath',
+    'generateDdl',
+    'generateErDiagram',
+    'refreshMetadata',
+    'searchMetadata',
+    'snapshotSchema',
+  ],
+  query: ['queryData', 'bulkWrite'],
+  procedures: ['getProcedures', 'getProcedureParameters', 'execData'],
+};
+
+/**
+ * Annotations for tools that only read metadata or data from the connected sources
+ */
+export const READ_ONLY_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+/**
+ * Annotations for tools that only change the server's own state, such as its caches
+ */
+export const CACHE_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+/**
+ * Annotations for tools that read from the connected sources and write local files
+ */
+export const SNAPSHOT_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+/**
+ * Annotations for `queryData`, which can run writes unless the server is read-only
+ */
+export const QUERY_ANNOTATIONS: ToolAnnotations = READ_ONLY
+  ? READ_ONLY_ANNOTATIONS
+  : { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true };
+
+/**
+ * Annotations for tools that run stored procedures with unknown side effects
+ */
+export const EXEC_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+/**
+ * Annotations for tools that insert, update or delete rows in the connected sources
+ */
+export const WRITE_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+export interface ToolConfig {
+  /** Toolsets to expose; all toolsets when neither toolsets nor tools are set */
+  toolsets?: string[];
+  /** Individual tools to expose in addition to the selected toolsets */
+  tools?: string[];
+  /** Tools to hide even if a selected toolset contains them */
+  disabledTools?: string[];
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Load the tool configuration from the file named by TOOLS_CONFIG_FILE, then
+ * apply the TOOLSETS, TOOLS and DISABLED_TOOLS environment variables on top
+ */
+export function loadToolConfig(): ToolConfig {
+  let config: ToolConfig = {};
+
+  const file = process.env.TOOLS_CONFIG_FILE;
+  if (file) {
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf8'));
+      info(`Loaded tool configuration from ${file}`);
+    } catch (err: any) {
+      error(`Failed to read tool configuration from ${file}: ${err.message}`);
+      throw new Error(`Invalid tool configuration file ${file}: ${err.message}`);
+    }
+  }
+
+  return {
+    toolsets: parseList(process.env.TOOLSETS) ?? config.toolsets,
+    tools: parseList(process.env.TOOLS) ?? config.tools,
+    disabledTools: parseList(process.env.DISABLED_TOOLS) ?? config.disabledTools,
+  };
+}
+
+/**
+ * Build a predicate telling whether a tool should be exposed
+ * @param config The tool configuration
+ */
+export function toolFilter(config: ToolConfig): (name: string) => boolean {
+  for (const toolset of config.toolsets ?? []) {
+    if (!TOOLSETS[toolset]) {
+      throw new Error(
+        `Unknown toolset '${toolset}'. Available toolsets: ${Object.keys(TOOLSETS).join(', ')}`,
+      );
+    }
+  }
+
+  const selectAll = config.toolsets === undefined && config.tools === undefined;
+  const selected = new Set([
+    ...(config.toolsets ?? []).flatMap(toolset => TOOLSETS[toolset]),
+    ...(config.tools ?? []),
+  ]);
+  const disabled = new Set(config.disabledTools ?? []);
+
+  return name => (selectAll || selected.has(name)) && !disabled.has(name);
+}
+
+/**
+ * Build a predicate telling whether a generated procedure tool should be exposed.
+ * Those tools follow `execData` unless they are named in `tools` or `disabledTools`.
+ * @param config The tool configuration
+ */
+export function procedureToolFilter(config: ToolConfig): (name: string) => boolean {
+  const isToolEnabled = toolFilter(config);
+  const selected = new Set(config.tools ?? []);
+  const disabled = new Set(config.disabledTools ?? []);
+  return name => !disabled.has(name) && (selected.has(name) || isToolEnabled('execData'));
+}
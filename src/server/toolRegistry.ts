@@ -1,7 +1,24 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { queryData, execData } from '../tools/query';
 import {
+  queryData,
+  execData,
+  bulkWrite,
+  BULK_WRITE_MODES,
+  DEFAULT_MAX_ROWS,
+  formatResult,
+  OUTPUT_FORMATS,
+  structuredResult,
+  structuredTable,
+} from '../tools/query';
+import { READ_ONLY } from '../tools/query/readOnly';
+import {
+  describeTable,
+  diffSchema,
+  exportDataDictionary,
+  findJoinPath,
+  generateDdl,
+  generateErDiagram,
   getCatalogs,
   getColumns,
   getExportedKeys,
@@ -12,39 +29,341 @@ import {
   getProcedureParameters,
   getSchemas,
   getTables,
+  refreshMetadata,
+  searchMetadata,
+  snapshotSchema,
 } from '../tools/metadata';
+import { SQL_DIALECTS } from '../ddl';
+import { DICTIONARY_FORMATS } from '../dictionary';
+import { info } from '../utils/logger';
+import {
+  CACHE_ANNOTATIONS,
+  EXEC_ANNOTATIONS,
+  loadToolConfig,
+  procedureToolFilter,
+  QUERY_ANNOTATIONS,
+  READ_ONLY_ANNOTATIONS,
+  SNAPSHOT_ANNOTATIONS,
+  toolFilter,
+  WRITE_ANNOTATIONS,
+} from './toolConfig';
+import {
+  bulkWriteShape,
+  dataDictionaryShape,
+  ddlShape,
+  erDiagramShape,
+  joinPathShape,
+  queryOutputShape,
+  refreshMetadataShape,
+  schemaDiffShape,
+  searchOutputShape,
+  snapshotShape,
+  tableDescriptionShape,
+  tabularOutputShape,
+} from './outputSchemas';
+import { withRequestContext } from './handlerContext';
+import { registerProcedureTools, syncProcedureTools } from './procedureTools';
+
+/**
+ * A `queryData` or `execData` parameter: a plain value, a value with a type
+ * name, or a value with a Connect Cloud type code
+ */
+const parameterInputSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z.object({
+    type: z.string(),
+    value: z.any().optional(),
+    direction: z.number().int().optional(),
+  }),
+  z.object({
+    dataType: z.number().int(),
+    value: z.any().optional(),
+    direction: z.number().int().optional(),
+  }),
+]);
+
+const PARAMETER_TYPES_HELP =
+  'Give plain JSON values, or {"type": ..., "value": ...} with a type such as string, integer, bigint, decimal, double, boolean, date, time, timestamp, uuid or binary';
 
 /**
  * Register all tools with the MCP server
  * @param server The MCP server instance
  */
 export function registerTools(server: McpServer) {
+  const tools: Record<string, RegisteredTool> = {};
+
   // Query Data tool
-  server.tool(
+  tools.queryData = server.registerTool(
     'queryData',
-    'Execute SQL queries against connected data sources and retrieve results',
     {
-      query: z
-        .string()
-        .describe('The SQL statement(s) to execute. Separate multiple statements with semi-colons'),
-      defaultSchema: z
-        .string()
-        .optional()
-        .describe('Schema to use if tables are not prefixed with a schema name'),
-      schemaOnly: z
-        .boolean()
-        .optional()
-        .describe('If true, the result only includes column metadata'),
-      parameters: z
-        .record(z.any())
-        .optional()
-        .describe(
-          'A JSON object containing a list of query parameters. All parameter names must begin with @',
-        ),
+      title: 'Query Data',
+      description:
+        'Execute SQL queries against connected data sources and retrieve results. Results are paged: when `hasMore` is true, call again with `cursor` set to `nextCursor` to fetch the next page',
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe(
+            'The SQL statement(s) to execute. Separate multiple statements with semi-colons. Required unless cursor is set',
+          ),
+        defaultSchema: z
+          .string()
+          .optional()
+          .describe('Schema to use if tables are not prefixed with a schema name'),
+        schemaOnly: z
+          .boolean()
+          .optional()
+          .describe('If true, the result only includes column metadata'),
+        parameters: z
+          .record(parameterInputSchema)
+          .optional()
+          .describe(
+            `Values of the @parameters referenced in the query, keyed by name. Every referenced parameter must be supplied. ${PARAMETER_TYPES_HELP}. The type of strings and nulls is taken from the column they are compared with or inserted into`,
+          ),
+        maxRows: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(`Maximum number of rows to return per page (default ${DEFAULT_MAX_ROWS})`),
+        offset: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe('Number of rows to skip before the first returned row'),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'The nextCursor value from a previous queryData result. Fetches the next page of that query; the query, defaultSchema and parameters are taken from the cursor',
+          ),
+        format: z
+          .enum(OUTPUT_FORMATS)
+          .optional()
+          .describe(
+            'Output format for the result: json (default), compact (column-oriented JSON), csv, markdown or ndjson. Non-JSON formats use far fewer tokens for large results',
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            'Token from a previous write preview. Repeat the previewed call unchanged with this token to run it',
+          ),
+      },
+      outputSchema: queryOutputShape,
+      annotations: QUERY_ANNOTATIONS,
+    },
+    withRequestContext(
+      server,
+      async ({
+        query,
+        defaultSchema,
+        schemaOnly,
+        parameters,
+        maxRows,
+        offset,
+        cursor,
+        format,
+        confirmationToken,
+      }) => {
+        try {
+          const response = await queryData(
+            query ?? '',
+            defaultSchema,
+            schemaOnly,
+            parameters,
+            { maxRows, offset, cursor },
+            confirmationToken,
+          );
+          if (response.error) {
+            return {
+              content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text', text: formatResult(response.result ?? {}, format) }],
+            structuredContent: structuredResult(response.result ?? {}),
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: 'text', text: `Error: ${error.message}` }],
+            isError: true,
+          };
+        }
+      },
+    ),
+  );
+
+  // Execute Data tool
+  tools.execData = server.registerTool(
+    'execData',
+    {
+      title: 'Execute Procedure',
+      description: 'Execute stored procedures against connected data sources',
+      inputSchema: {
+        procedure: z.string().describe('The name of the stored procedure to execute'),
+        defaultSchema: z
+          .string()
+          .optional()
+          .describe('Schema to use if the procedure is not prefixed with a schema name'),
+        parameters: z
+          .record(parameterInputSchema)
+          .optional()
+          .describe(
+            `Procedure parameters keyed by name. ${PARAMETER_TYPES_HELP}. The type of strings and nulls is taken from the procedure's declared parameters`,
+          ),
+        format: z
+          .enum(OUTPUT_FORMATS)
+          .optional()
+          .describe(
+            'Output format for the result: json (default), compact (column-oriented JSON), csv, markdown or ndjson. Non-JSON formats use far fewer tokens for large results',
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            'Token from a previous write preview. Repeat the previewed call unchanged with this token to run it',
+          ),
+      },
+      outputSchema: queryOutputShape,
+      annotations: EXEC_ANNOTATIONS,
     },
-    async ({ query, defaultSchema, schemaOnly, parameters }) => {
+    withRequestContext(
+      server,
+      async ({ procedure, defaultSchema, parameters, format, confirmationToken }) => {
+        try {
+          const response = await execData(procedure, defaultSchema, parameters, confirmationToken);
+          if (response.error) {
+            return {
+              content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text', text: formatResult(response.result ?? {}, format) }],
+            structuredContent: structuredResult(response.result ?? {}),
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: 'text', text: `Error: ${error.message}` }],
+            isError: true,
+          };
+        }
+      },
+    ),
+  );
+
+  // Bulk Write tool
+  tools.bulkWrite = server.registerTool(
+    'bulkWrite',
+    {
+      title: 'Bulk Write',
+      description:
+        'Insert, update, upsert or delete many rows of a table from an array of JSON objects keyed by column name. Rows are checked against the table columns and key before anything is sent, then written in batches with parameterized statements. The result reports the outcome of every row',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) of the table'),
+        schemaName: z.string().describe('The schema of the table'),
+        tableName: z.string().describe('The table to write to'),
+        mode: z
+          .enum(BULK_WRITE_MODES)
+          .describe(
+            'insert adds rows; update and delete match rows by the key columns; upsert inserts or updates by key',
+          ),
+        rows: z
+          .array(z.record(z.unknown()))
+          .min(1)
+          .describe(
+            'Rows keyed by column name. For update, delete and upsert every row must include the key columns',
+          ),
+        keyColumns: z
+          .array(z.string())
+          .optional()
+          .describe('Columns that identify a row. Defaults to the primary key of the table'),
+        batchSize: z
+          .number()
+          .int()
+          .positive()
+          .max(1000)
+          .optional()
+          .describe('Rows sent per request (default 100)'),
+        continueOnError: z
+          .boolean()
+          .optional()
+          .describe(
+            'Write the valid rows even if some rows are invalid, and keep going after a failed batch. By default nothing is written when a row is invalid, and writing stops at the first failed batch',
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            'Token from a previous write preview. Repeat the previewed call unchanged with this token to run it',
+          ),
+      },
+      outputSchema: bulkWriteShape,
+      annotations: WRITE_ANNOTATIONS,
+    },
+    withRequestContext(
+      server,
+      async ({
+        catalogName,
+        schemaName,
+        tableName,
+        mode,
+        rows,
+        keyColumns,
+        batchSize,
+        continueOnError,
+        confirmationToken,
+      }) => {
+        try {
+          const response = await bulkWrite(
+            catalogName,
+            schemaName,
+            tableName,
+            mode,
+            rows,
+            { keyColumns, batchSize, continueOnError },
+            confirmationToken,
+          );
+          if (response.error) {
+            return {
+              content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+            structuredContent: { ...response.result },
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: 'text', text: `Error: ${error.message}` }],
+            isError: true,
+          };
+        }
+      },
+    ),
+  );
+
+  // Get Catalogs tool
+  tools.getCatalogs = server.registerTool(
+    'getCatalogs',
+    {
+      title: 'Get Catalogs',
+      description:
+        'Retrieve a list of available connections from CData Connect Cloud.  The connection names should be used as catalog names in other tools and in any queries to CData Connect Cloud. Use the `getSchemas` tool to get a list of available schemas for a specific catalog.',
+      inputSchema: {},
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    withRequestContext(server, async () => {
       try {
-        const response = await queryData(query, defaultSchema, schemaOnly, parameters);
+        const response = await getCatalogs();
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -53,6 +372,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -60,29 +380,65 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Get Columns tool
+  tools.getColumns = server.registerTool(
+    'getColumns',
+    {
+      title: 'Get Columns',
+      description:
+        'Retrieve a list of available database columns from CData Connect Cloud for a specific catalog, schema, and table',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter columns by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter columns by'),
+        tableName: z.string().optional().describe('Optional table name to filter columns by'),
+        columnName: z.string().optional().describe('Optional column name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
+    withRequestContext(server, async ({ catalogName, schemaName, tableName, columnName }) => {
+      try {
+        const response = await getColumns(catalogName, schemaName, tableName, columnName);
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
   );
 
-  // Execute Data tool
-  server.tool(
-    'execData',
-    'Execute stored procedures against connected data sources',
+  // Get Exported Keys tool
+  tools.getExportedKeys = server.registerTool(
+    'getExportedKeys',
     {
-      procedure: z.string().describe('The name of the stored procedure to execute'),
-      defaultSchema: z
-        .string()
-        .optional()
-        .describe('Schema to use if the procedure is not prefixed with a schema name'),
-      parameters: z
-        .record(z.any())
-        .optional()
-        .describe(
-          'A JSON object containing procedure parameters. All parameter names must begin with @',
-        ),
+      title: 'Get Exported Keys',
+      description:
+        'Retrieve a list of foreign key relationships from CData Connect Cloud for a specific catalog, schema, and table',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
+        tableName: z.string().optional().describe('Optional table name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ procedure, defaultSchema, parameters }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
       try {
-        const response = await execData(procedure, defaultSchema, parameters);
+        const response = await getExportedKeys(catalogName, schemaName, tableName);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -91,6 +447,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -98,17 +455,64 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Get Imported Keys tool
+  tools.getImportedKeys = server.registerTool(
+    'getImportedKeys',
+    {
+      title: 'Get Imported Keys',
+      description:
+        'Retrieve a list of foreign key relationships from CData Connect Cloud for a specific catalog, schema, and table',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
+        tableName: z.string().optional().describe('Optional table name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
+      try {
+        const response = await getImportedKeys(catalogName, schemaName, tableName);
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
   );
 
-  // Get Catalogs tool
-  server.tool(
-    'getCatalogs',
-    'Retrieve a list of available connections from CData Connect Cloud.  The connection names should be used as catalog names in other tools and in any queries to CData Connect Cloud. Use the `getSchemas` tool to get a list of available schemas for a specific catalog.',
-    {},
-    async () => {
+  // Describe Table tool
+  tools.describeTable = server.registerTool(
+    'describeTable',
+    {
+      title: 'Describe Table',
+      description:
+        'Describe a table in one call: columns with types and nullability, primary key, foreign keys to and from other tables, and indexes. Replaces separate calls to getColumns, getPrimaryKeys, getImportedKeys, getExportedKeys and getIndexes. Parts the source cannot provide are listed under `errors`',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) that contains the table'),
+        schemaName: z.string().describe('The schema that contains the table'),
+        tableName: z.string().describe('The table to describe'),
+      },
+      outputSchema: tableDescriptionShape,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
       try {
-        const response = await getCatalogs();
+        const response = await describeTable(catalogName, schemaName, tableName);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -117,6 +521,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: { ...response.result },
         };
       } catch (error: any) {
         return {
@@ -124,30 +529,125 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Generate DDL tool
+  tools.generateDdl = server.registerTool(
+    'generateDdl',
+    {
+      title: 'Generate DDL',
+      description:
+        'Generate CREATE TABLE statements for a schema, or some of its tables, in PostgreSQL, SQLite, MySQL, SQL Server or Snowflake, from the columns, primary keys, foreign keys and indexes of the source. Useful for creating staging tables. Columns whose source type has no mapping use a text type and are listed under `unmappedTypes`',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) that contains the schema'),
+        schemaName: z.string().describe('The schema to generate tables for'),
+        dialect: z
+          .enum(SQL_DIALECTS)
+          .describe('Target database: postgresql, sqlite, mysql, sqlserver or snowflake'),
+        tableNames: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe('Optional tables to generate; all tables of the schema when omitted'),
+        targetSchema: z
+          .string()
+          .optional()
+          .describe('Schema to qualify the generated tables with; unqualified when omitted'),
+        includeForeignKeys: z
+          .boolean()
+          .optional()
+          .describe('Add foreign keys between the generated tables (default true)'),
+        includeIndexes: z
+          .boolean()
+          .optional()
+          .describe('Add CREATE INDEX statements (default true)'),
+      },
+      outputSchema: ddlShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
+    withRequestContext(
+      server,
+      async ({
+        catalogName,
+        schemaName,
+        dialect,
+        tableNames,
+        targetSchema,
+        includeForeignKeys,
+        includeIndexes,
+      }) => {
+        try {
+          const response = await generateDdl(catalogName, schemaName, dialect, tableNames, {
+            targetSchema,
+            foreignKeys: includeForeignKeys,
+            indexes: includeIndexes,
+          });
+          if (response.error) {
+            return {
+              content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+              isError: true,
+            };
+          }
+          // The statements are easier to use unescaped than inside JSON
+          const { ddl, ...summary } = response.result!;
+          return {
+            content: [
+              { type: 'text', text: ddl },
+              { type: 'text', text: JSON.stringify(summary, null, 2) },
+            ],
+            structuredContent: { ...response.result },
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: 'text', text: `Error: ${error.message}` }],
+            isError: true,
+          };
+        }
+      },
+    ),
   );
 
-  // Get Columns tool
-  server.tool(
-    'getColumns',
-    'Retrieve a list of available database columns from CData Connect Cloud for a specific catalog, schema, and table',
+  // Generate ER Diagram tool
+  tools.generateErDiagram = server.registerTool(
+    'generateErDiagram',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter columns by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter columns by'),
-      tableName: z.string().optional().describe('Optional table name to filter columns by'),
-      columnName: z.string().optional().describe('Optional column name to filter by'),
+      title: 'Generate ER Diagram',
+      description:
+        'Draw an entity-relationship diagram of a schema from its columns, primary keys and foreign keys. Returns Mermaid `erDiagram` source by default, or PlantUML or Graphviz DOT. Primary and foreign key columns are marked and relationships show their cardinality. Pass `tableNames` to limit large schemas to the tables of interest',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) that contains the schema'),
+        schemaName: z.string().describe('The schema to draw'),
+        tableNames: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe('Optional tables to include; all tables of the schema when omitted'),
+        format: z
+          .enum(['mermaid', 'plantuml', 'dot'])
+          .optional()
+          .describe('Diagram language (default mermaid)'),
+      },
+      outputSchema: erDiagramShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName, columnName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableNames, format }) => {
       try {
-        const response = await getColumns(catalogName, schemaName, tableName, columnName);
+        const response = await generateErDiagram(catalogName, schemaName, tableNames, format);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
             isError: true,
           };
         }
+        // The diagram source is easier to use unescaped than inside JSON
+        const { diagram, ...summary } = response.result!;
         return {
-          content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          content: [
+            { type: 'text', text: diagram },
+            { type: 'text', text: JSON.stringify(summary, null, 2) },
+          ],
+          structuredContent: { ...response.result },
         };
       } catch (error: any) {
         return {
@@ -155,21 +655,75 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Export Data Dictionary tool
+  tools.exportDataDictionary = server.registerTool(
+    'exportDataDictionary',
+    {
+      title: 'Export Data Dictionary',
+      description:
+        'Export the tables and columns of a catalog, or one of its schemas, as a data dictionary with column types, nullability, keys and the descriptions the source provides. Formats: a Markdown document, a JSON Schema per table, or an OpenAPI components section',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) to document'),
+        schemaName: z.string().optional().describe('Optional schema to limit the dictionary to'),
+        format: z
+          .enum(DICTIONARY_FORMATS)
+          .optional()
+          .describe('markdown, jsonschema or openapi (default markdown)'),
+      },
+      outputSchema: dataDictionaryShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
+    withRequestContext(server, async ({ catalogName, schemaName, format }) => {
+      try {
+        const response = await exportDataDictionary(catalogName, schemaName, format);
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        // The document is easier to use unescaped than inside JSON
+        const { document, ...summary } = response.result!;
+        return {
+          content: [
+            { type: 'text', text: document },
+            { type: 'text', text: JSON.stringify(summary, null, 2) },
+          ],
+          structuredContent: { ...response.result },
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
   );
 
-  // Get Exported Keys tool
-  server.tool(
-    'getExportedKeys',
-    'Retrieve a list of foreign key relationships from CData Connect Cloud for a specific catalog, schema, and table',
+  // Find Join Path tool
+  tools.findJoinPath = server.registerTool(
+    'findJoinPath',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
-      tableName: z.string().optional().describe('Optional table name to filter by'),
+      title: 'Find Join Path',
+      description:
+        'Find the shortest way to join two or more tables of a schema through its declared foreign keys, including intermediate tables. Returns the foreign keys to follow and ready-to-use `FROM` and `JOIN ... ON ...` clauses. Use it instead of guessing join columns; tables no foreign keys lead to are listed under `unreachable`',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) that contains the tables'),
+        schemaName: z.string().describe('The schema that contains the tables'),
+        tableNames: z
+          .array(z.string())
+          .min(2)
+          .describe('The tables to join; the first one becomes the FROM table'),
+      },
+      outputSchema: joinPathShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableNames }) => {
       try {
-        const response = await getExportedKeys(catalogName, schemaName, tableName);
+        const response = await findJoinPath(catalogName, schemaName, tableNames);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -178,6 +732,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: { ...response.result },
         };
       } catch (error: any) {
         return {
@@ -185,21 +740,37 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
-    },
+    }),
   );
 
-  // Get Imported Keys tool
-  server.tool(
-    'getImportedKeys',
-    'Retrieve a list of foreign key relationships from CData Connect Cloud for a specific catalog, schema, and table',
+  // Search Metadata tool
+  tools.searchMetadata = server.registerTool(
+    'searchMetadata',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
-      tableName: z.string().optional().describe('Optional table name to filter by'),
+      title: 'Search Metadata',
+      description:
+        'Search table names, column names and descriptions across every connection with free text such as "customer email" or "invoice date". Returns ranked matches with their catalog, schema and table, so there is no need to walk catalogs, schemas and tables by hand. The first search builds an index, which can take a while for large accounts',
+      inputSchema: {
+        query: z.string().describe('Free text describing the table or column to find'),
+        catalogName: z.string().optional().describe('Optional catalog to limit the search to'),
+        kind: z
+          .enum(['table', 'column'])
+          .optional()
+          .describe('Only return tables or only return columns'),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .max(100)
+          .optional()
+          .describe('Maximum number of matches to return (default 20)'),
+      },
+      outputSchema: searchOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName }) => {
+    withRequestContext(server, async ({ query, catalogName, kind, limit }) => {
       try {
-        const response = await getImportedKeys(catalogName, schemaName, tableName);
+        const response = await searchMetadata(query, catalogName, kind, limit);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -208,6 +779,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: { ...response.result },
         };
       } catch (error: any) {
         return {
@@ -215,21 +787,71 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Snapshot Schema tool
+  tools.snapshotSchema = server.registerTool(
+    'snapshotSchema',
+    {
+      title: 'Snapshot Schema',
+      description:
+        'Save the tables, columns, types, keys and indexes of a catalog, or one of its schemas, to a local JSON snapshot file. Compare snapshots later with diffSchema to find columns a connector added, removed or changed',
+      inputSchema: {
+        catalogName: z.string().describe('The catalog (connection) to capture'),
+        schemaName: z.string().optional().describe('Optional schema to limit the snapshot to'),
+        name: z
+          .string()
+          .optional()
+          .describe(
+            'Snapshot name (letters, digits, dots, dashes, underscores); derived from the catalog, schema and time when omitted',
+          ),
+      },
+      outputSchema: snapshotShape,
+      annotations: SNAPSHOT_ANNOTATIONS,
     },
+    withRequestContext(server, async ({ catalogName, schemaName, name }) => {
+      try {
+        const response = await snapshotSchema(catalogName, schemaName, name);
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: { ...response.result },
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
   );
 
-  // Get Indexes tool
-  server.tool(
-    'getIndexes',
-    'Retrieve a list of indexes from CData Connect Cloud for a specific catalog, schema, and table',
+  // Diff Schema tool
+  tools.diffSchema = server.registerTool(
+    'diffSchema',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter indexes by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter indexes by'),
-      tableName: z.string().optional().describe('Optional table name to filter by'),
+      title: 'Diff Schema',
+      description:
+        'Compare a saved schema snapshot with another snapshot, or with the live metadata when `targetSnapshot` is omitted. Reports added and removed tables, and for changed tables the added, removed and changed columns, primary key, foreign keys and indexes',
+      inputSchema: {
+        baseSnapshot: z.string().describe('Name of the older snapshot'),
+        targetSnapshot: z
+          .string()
+          .optional()
+          .describe('Name of the newer snapshot; the live metadata when omitted'),
+      },
+      outputSchema: schemaDiffShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName }) => {
+    withRequestContext(server, async ({ baseSnapshot, targetSnapshot }) => {
       try {
-        const response = await getIndexes(catalogName, schemaName, tableName);
+        const response = await diffSchema(baseSnapshot, targetSnapshot);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -238,6 +860,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: { ...response.result },
         };
       } catch (error: any) {
         return {
@@ -245,21 +868,66 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Refresh Metadata tool
+  tools.refreshMetadata = server.registerTool(
+    'refreshMetadata',
+    {
+      title: 'Refresh Metadata',
+      description:
+        'Clear cached metadata so the next metadata calls fetch fresh results from CData Connect Cloud. Use it after tables, columns or connections change. Omit both arguments to clear everything',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog whose metadata to refresh'),
+        schemaName: z.string().optional().describe('Optional schema whose metadata to refresh'),
+      },
+      outputSchema: refreshMetadataShape,
+      annotations: CACHE_ANNOTATIONS,
     },
+    withRequestContext(server, async ({ catalogName, schemaName }) => {
+      try {
+        const response = await refreshMetadata(catalogName, schemaName);
+        if (response.error) {
+          return {
+            content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+            isError: true,
+          };
+        }
+        // Procedures may have been added or changed along with the rest of the metadata
+        const procedureTools = await syncProcedureTools(catalogName, true);
+        const result = { ...response.result, ...(procedureTools && { procedureTools }) };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }),
   );
 
-  // Get Primary Keys tool
-  server.tool(
-    'getPrimaryKeys',
-    'Retrieve a list of primary keys from CData Connect Cloud for a specific catalog, schema, and table',
+  // Get Indexes tool
+  tools.getIndexes = server.registerTool(
+    'getIndexes',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
-      tableName: z.string().optional().describe('Optional table name to filter by'),
+      title: 'Get Indexes',
+      description:
+        'Retrieve a list of indexes from CData Connect Cloud for a specific catalog, schema, and table',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter indexes by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter indexes by'),
+        tableName: z.string().optional().describe('Optional table name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
       try {
-        const response = await getPrimaryKeys(catalogName, schemaName, tableName);
+        const response = await getIndexes(catalogName, schemaName, tableName);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -268,6 +936,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -275,30 +944,27 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
-    },
+    }),
   );
 
-  // Get Procedure Parameters tool
-  server.tool(
-    'getProcedureParameters',
-    'Retrieve a list of stored procedure parameters from CData Connect Cloud for a specific catalog, schema, and procedure',
+  // Get Primary Keys tool
+  tools.getPrimaryKeys = server.registerTool(
+    'getPrimaryKeys',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter parameters by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter parameters by'),
-      procedureName: z
-        .string()
-        .optional()
-        .describe('Optional procedure name to filter parameters by'),
-      parameterName: z.string().optional().describe('Optional parameter name to filter by'),
+      title: 'Get Primary Keys',
+      description:
+        'Retrieve a list of primary keys from CData Connect Cloud for a specific catalog, schema, and table',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter keys by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter keys by'),
+        tableName: z.string().optional().describe('Optional table name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, procedureName, parameterName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
       try {
-        const response = await getProcedureParameters(
-          catalogName,
-          schemaName,
-          procedureName,
-          parameterName,
-        );
+        const response = await getPrimaryKeys(catalogName, schemaName, tableName);
         if (response.error) {
           return {
             content: [{ type: 'text', text: `Error: ${response.error.message}` }],
@@ -307,6 +973,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -314,19 +981,80 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
+    }),
+  );
+
+  // Get Procedure Parameters tool
+  tools.getProcedureParameters = server.registerTool(
+    'getProcedureParameters',
+    {
+      title: 'Get Procedure Parameters',
+      description:
+        'Retrieve a list of stored procedure parameters from CData Connect Cloud for a specific catalog, schema, and procedure',
+      inputSchema: {
+        catalogName: z
+          .string()
+          .optional()
+          .describe('Optional catalog name to filter parameters by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter parameters by'),
+        procedureName: z
+          .string()
+          .optional()
+          .describe('Optional procedure name to filter parameters by'),
+        parameterName: z.string().optional().describe('Optional parameter name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
+    withRequestContext(
+      server,
+      async ({ catalogName, schemaName, procedureName, parameterName }) => {
+        try {
+          const response = await getProcedureParameters(
+            catalogName,
+            schemaName,
+            procedureName,
+            parameterName,
+          );
+          if (response.error) {
+            return {
+              content: [{ type: 'text', text: `Error: ${response.error.message}` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+            structuredContent: structuredTable(response.result ?? {}),
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: 'text', text: `Error: ${error.message}` }],
+            isError: true,
+          };
+        }
+      },
+    ),
   );
 
   // Get Procdures tool
-  server.tool(
+  tools.getProcedures = server.registerTool(
     'getProcedures',
-    'Retrieve a list of stored procedures from CData Connect Cloud for a specific catalog and schema',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter procedures by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter procedures by'),
-      procedureName: z.string().optional().describe('Optional procedure name to filter by'),
+      title: 'Get Procedures',
+      description:
+        'Retrieve a list of stored procedures from CData Connect Cloud for a specific catalog and schema',
+      inputSchema: {
+        catalogName: z
+          .string()
+          .optional()
+          .describe('Optional catalog name to filter procedures by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter procedures by'),
+        procedureName: z.string().optional().describe('Optional procedure name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, procedureName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, procedureName }) => {
       try {
         const response = await getProcedures(catalogName, schemaName, procedureName);
         if (response.error) {
@@ -337,6 +1065,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -344,17 +1073,23 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
-    },
+    }),
   );
 
   // Get Schemas tool
-  server.tool(
+  tools.getSchemas = server.registerTool(
     'getSchemas',
-    'Retrieve a list of available database schemas from CData Connect Cloud for a specific catalog.  Use the `getTables` tool to get a list of available tables for a specific catalog and schema.',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter schemas by'),
+      title: 'Get Schemas',
+      description:
+        'Retrieve a list of available database schemas from CData Connect Cloud for a specific catalog.  Use the `getTables` tool to get a list of available tables for a specific catalog and schema.',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter schemas by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName }) => {
+    withRequestContext(server, async ({ catalogName }) => {
       try {
         const response = await getSchemas(catalogName);
         if (response.error) {
@@ -365,6 +1100,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -372,19 +1108,25 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
-    },
+    }),
   );
 
   // Get Tables tool
-  server.tool(
+  tools.getTables = server.registerTool(
     'getTables',
-    'Retrieve a list of available database tables from CData Connect Cloud for a specific catalog and schema.  Use the `getColumns` tool to get a list of available columns for a specific table.',
     {
-      catalogName: z.string().optional().describe('Optional catalog name to filter tables by'),
-      schemaName: z.string().optional().describe('Optional schema name to filter tables by'),
-      tableName: z.string().optional().describe('Optional table name to filter by'),
+      title: 'Get Tables',
+      description:
+        'Retrieve a list of available database tables from CData Connect Cloud for a specific catalog and schema.  Use the `getColumns` tool to get a list of available columns for a specific table.',
+      inputSchema: {
+        catalogName: z.string().optional().describe('Optional catalog name to filter tables by'),
+        schemaName: z.string().optional().describe('Optional schema name to filter tables by'),
+        tableName: z.string().optional().describe('Optional table name to filter by'),
+      },
+      outputSchema: tabularOutputShape,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async ({ catalogName, schemaName, tableName }) => {
+    withRequestContext(server, async ({ catalogName, schemaName, tableName }) => {
       try {
         const response = await getTables(catalogName, schemaName, tableName);
         if (response.error) {
@@ -395,6 +1137,7 @@ export function registerTools(server: McpServer) {
         }
         return {
           content: [{ type: 'text', text: JSON.stringify(response.result, null, 2) }],
+          structuredContent: structuredTable(response.result ?? {}),
         };
       } catch (error: any) {
         return {
@@ -402,6 +1145,23 @@ export function registerTools(server: McpServer) {
           isError: true,
         };
       }
-    },
+    }),
   );
+
+  // Remove the tools this deployment does not expose
+  const toolConfig = loadToolConfig();
+  const isToolEnabled = toolFilter(toolConfig);
+  for (const [name, tool] of Object.entries(tools)) {
+    if (READ_ONLY && name === 'bulkWrite') {
+      // Read-only mode rejects every write it would send
+      tool.remove();
+      info(`Tool ${name} disabled by read-only mode`);
+    } else if (!isToolEnabled(name)) {
+      tool.remove();
+      info(`Tool ${name} disabled by configuration`);
+    }
+  }
+
+  // Generated tools for individual stored procedures, when enabled
+  registerProcedureTools(server, procedureToolFilter(toolConfig));
 }
@@ -0,0 +1,271 @@
+import { cdataClient, ColumnRow, ForeignKeyRow, IndexRow, toRecords } from '../../client';
+import { startProgress, trackStep } from '../../utils/progress';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface TableColumn {
+  name: string;
+  type?: string;
+  nullable: boolean;
+  primaryKey?: boolean;
+  size?: number;
+  default?: string;
+  autoIncrement?: boolean;
+  description?: string;
+}
+
+/**
+ * The other side of a foreign key, and the columns on that side
+ */
+export interface TableReference {
+  catalog: string;
+  schema: string;
+  table: string;
+  columns: string[];
+}
+
+/**
+ * A foreign key from this table to another (`references`), or from another
+ * table to this one (`referencedBy`). `columns` are always this table's columns.
+ */
+export interface TableForeignKey {
+  name?: string;
+  columns: string[];
+  references?: TableReference;
+  referencedBy?: TableReference;
+}
+
+export interface TableIndex {
+  name: string;
+  unique: boolean;
+  columns: string[];
+}
+
+/**
+ * Merged description of a table
+ */
+export interface TableDescription {
+  catalog: string;
+  schema: string;
+  table: string;
+  type?: string;
+  description?: string;
+  columns: TableColumn[];
+  primaryKey: string[];
+  /** Foreign keys of this table referencing other tables */
+  foreignKeys: TableForeignKey[];
+  /** Foreign keys of other tables referencing this table */
+  referencedBy: TableForeignKey[];
+  indexes: TableIndex[];
+  /** Parts of the description that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+function isTrue(value: boolean | string | undefined): boolean {
+  return value === true || ['YES', 'TRUE'].includes(String(value).toUpperCase());
+}
+
+function byKeySeq(a: { KEY_SEQ?: number }, b: { KEY_SEQ?: number }): number {
+  return (a.KEY_SEQ ?? 0) - (b.KEY_SEQ ?? 0);
+}
+
+function toColumn(row: ColumnRow, primaryKey: string[]): TableColumn {
+  const column: TableColumn = {
+    name: row.COLUMN_NAME,
+    type: row.TYPE_NAME,
+    nullable: isTrue(row.IS_NULLABLE),
+  };
+  if (primaryKey.includes(row.COLUMN_NAME)) column.primaryKey = true;
+  if (row.COLUMN_SIZE != null) column.size = row.COLUMN_SIZE;
+  if (row.COLUMN_DEFAULT != null) column.default = row.COLUMN_DEFAULT;
+  if (row.IS_AUTOINCREMENT !== undefined && isTrue(row.IS_AUTOINCREMENT)) {
+    column.autoIncrement = true;
+  }
+  if (row.REMARKS) column.description = row.REMARKS;
+  return column;
+}
+
+/**
+ * Group foreign key rows by constraint, keeping the columns in key order
+ * @param rows Rows from `/importedKeys` or `/exportedKeys`
+ * @param side 'references' when this table holds the foreign key, 'referencedBy' when it is referenced
+ */
+function toForeignKeys(
+  rows: ForeignKeyRow[],
+  side: 'references' | 'referencedBy',
+): TableForeignKey[] {
+  const keys = new Map<string, TableForeignKey & { other: TableReference }>();
+  for (const row of [...rows].sort(byKeySeq)) {
+    const other =
+      side === 'references'
+        ? { catalog: row.PKTABLE_CATALOG, schema: row.PKTABLE_SCHEMA, table: row.PKTABLE_NAME }
+        : { catalog: row.FKTABLE_CATALOG, schema: row.FKTABLE_SCHEMA, table: row.FKTABLE_NAME };
+    const id = row.FK_NAME ?? `${other.catalog}.${other.schema}.${other.table}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = { columns: [], other: { ...other, columns: [] } };
+      if (row.FK_NAME) key.name = row.FK_NAME;
+      keys.set(id, key);
+    }
+    key.columns.push(side === 'references' ? row.FKCOLUMN_NAME : row.PKCOLUMN_NAME);
+    key.other.columns.push(side === 'references' ? row.PKCOLUMN_NAME : row.FKCOLUMN_NAME);
+  }
+  return [...keys.values()].map(({ other, ...key }) => ({ ...key, [side]: other }));
+}
+
+/**
+ * Group index rows by index name, skipping table statistics rows that have no index name
+ */
+function toIndexes(rows: IndexRow[]): TableIndex[] {
+  const indexes = new Map<string, TableIndex>();
+  const sorted = [...rows].sort((a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0));
+  for (const row of sorted) {
+    if (!row.INDEX_NAME) continue;
+    let index = indexes.get(row.INDEX_NAME);
+    if (!index) {
+      index = { name: row.INDEX_NAME, unique: !isTrue(row.NON_UNIQUE), columns: [] };
+      indexes.set(row.INDEX_NAME, index);
+    }
+    if (row.COLUMN_NAME) index.columns.push(row.COLUMN_NAME);
+  }
+  return [...indexes.values()];
+}
+
+/**
+ * Load the columns, keys and indexes of a table in parallel and merge them.
+ * Only the columns are required; keys and indexes a source cannot provide are
+ * left empty and reported in `errors`.
+ * @throws When the columns cannot be loaded or the table does not exist
+ */
+export async function loadTableDescription(
+  catalogName: string,
+  schemaName: string,
+  tableName: string,
+): Promise<TableDescription> {
+  const progress = startProgress(6, `Loading metadata of ${tableName}`);
+  const [tables, columns, primaryKeys, importedKeys, exportedKeys, indexes] =
+    await Promise.allSettled([
+      trackStep(progress, 'table', cdataClient.getTables(catalogName, schemaName, tableName)),
+      trackStep(progress, 'columns', cdataClient.getColumns(catalogName, schemaName, tableName)),
+      trackStep(
+        progress,
+        'primary key',
+        cdataClient.getPrimaryKeys(catalogName, schemaName, tableName),
+      ),
+      trackStep(
+        progress,
+        'imported keys',
+        cdataClient.getImportedKeys(catalogName, schemaName, tableName),
+      ),
+      trackStep(
+        progress,
+        'exported keys',
+        cdataClient.getExportedKeys(catalogName, schemaName, tableName),
+      ),
+      trackStep(progress, 'indexes', cdataClient.getIndexes(catalogName, schemaName, tableName)),
+    ]);
+
+  if (columns.status === 'rejected') {
+    throw columns.reason;
+  }
+  const columnRows = toRecords(columns.value)
+    .filter(row => row.TABLE_NAME === tableName)
+    .sort((a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0));
+  if (columnRows.length === 0) {
+    throw new Error(`Table ${catalogName}.${schemaName}.${tableName} was not found`);
+  }
+
+  const errors: Record<string, string> = {};
+  const parts = { table: tables, primaryKeys, importedKeys, exportedKeys, indexes };
+  for (const [part, result] of Object.entries(parts)) {
+    if (result.status === 'rejected') {
+      errors[part] = result.reason?.message ?? String(result.reason);
+    }
+  }
+
+  const primaryKey =
+    primaryKeys.status === 'fulfilled'
+      ? toRecords(primaryKeys.value)
+          .filter(row => row.TABLE_NAME === tableName)
+          .sort(byKeySeq)
+          .map(row => row.COLUMN_NAME)
+      : [];
+  const tableRow =
+    tables.status === 'fulfilled'
+      ? toRecords(tables.value).find(row => row.TABLE_NAME === tableName)
+      : undefined;
+
+  const description: TableDescription = {
+    catalog: catalogName,
+    schema: schemaName,
+    table: tableName,
+    type: tableRow?.TABLE_TYPE,
+    description: tableRow?.REMARKS ?? undefined,
+    columns: columnRows.map(row => toColumn(row, primaryKey)),
+    primaryKey,
+    foreignKeys:
+      importedKeys.status === 'fulfilled'
+        ? toForeignKeys(
+            toRecords(importedKeys.value).filter(row => row.FKTABLE_NAME === tableName),
+            'references',
+          )
+        : [],
+    referencedBy:
+      exportedKeys.status === 'fulfilled'
+        ? toForeignKeys(
+            toRecords(exportedKeys.value).filter(row => row.PKTABLE_NAME === tableName),
+            'referencedBy',
+          )
+        : [],
+    indexes:
+      indexes.status === 'fulfilled'
+        ? toIndexes(toRecords(indexes.value).filter(row => row.TABLE_NAME === tableName))
+        : [],
+  };
+  if (Object.keys(errors).length > 0) {
+    description.errors = errors;
+  }
+  return description;
+}
+
+async function describeTable(
+  catalogName: string,
+  schemaName: string,
+  tableName: string,
+): Promise<ToolResponse<TableDescription>> {
+  try {
+    const data = await loadTableDescription(catalogName, schemaName, tableName);
+    log({
+      message: 'Table description retrieved successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName,
+        tableName,
+        failedParts: Object.keys(data.errors ?? {}),
+      },
+    });
+
+    return toolResult(data);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error describing table',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName,
+        tableName,
+      },
+    });
+
+    return toolError(err, 'Unknown error describing table');
+  }
+}
+
+export { describeTable };
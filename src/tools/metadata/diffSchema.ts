@@ -0,0 +1,74 @@
+import {
+  diffSnapshots,
+  loadLiveSnapshot,
+  readSnapshot,
+  SchemaDiff,
+  summarizeSnapshot,
+  SnapshotSummary,
+} from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface DiffSchemaResult extends SchemaDiff {
+  base: SnapshotSummary;
+  target: SnapshotSummary;
+  identical: boolean;
+}
+
+/**
+ * Compare a snapshot with another snapshot, or with the live metadata of the
+ * snapshot's catalog and schema when `targetSnapshot` is omitted
+ */
+async function diffSchema(
+  baseSnapshot: string,
+  targetSnapshot?: string,
+): Promise<ToolResponse<DiffSchemaResult>> {
+  try {
+    const base = await readSnapshot(baseSnapshot);
+    const target = targetSnapshot
+      ? await readSnapshot(targetSnapshot)
+      : await loadLiveSnapshot(base.catalog, base.schema);
+    const diff = diffSnapshots(base, target);
+    const result: DiffSchemaResult = {
+      base: summarizeSnapshot(base),
+      target: summarizeSnapshot(target),
+      identical:
+        diff.addedTables.length === 0 &&
+        diff.removedTables.length === 0 &&
+        diff.changedTables.length === 0,
+      ...diff,
+    };
+
+    log({
+      message: 'Schema diff completed successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        baseSnapshot,
+        targetSnapshot: targetSnapshot || 'live',
+        addedTables: diff.addedTables.length,
+        removedTables: diff.removedTables.length,
+        changedTables: diff.changedTables.length,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error comparing schemas',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        baseSnapshot,
+        targetSnapshot: targetSnapshot || 'live',
+      },
+    });
+
+    return toolError(err, 'Unknown error comparing schemas');
+  }
+}
+
+export { diffSchema };
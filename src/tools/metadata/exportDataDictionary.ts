@@ -0,0 +1,67 @@
+import { DictionaryFormat, renderDataDictionary } from '../../dictionary';
+import { loadCatalogModel } from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface DataDictionaryResult {
+  catalogName: string;
+  schemaName?: string;
+  format: DictionaryFormat;
+  /** Markdown text, or JSON for the jsonschema and openapi formats */
+  document: string;
+  tables: number;
+  /** Metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+async function exportDataDictionary(
+  catalogName: string,
+  schemaName?: string,
+  format: DictionaryFormat = 'markdown',
+): Promise<ToolResponse<DataDictionaryResult>> {
+  try {
+    const model = await loadCatalogModel(catalogName, schemaName);
+    const result: DataDictionaryResult = {
+      catalogName,
+      schemaName,
+      format,
+      document: renderDataDictionary(model, format),
+      tables: model.schemas.reduce((count, schema) => count + schema.tables.length, 0),
+    };
+    if (model.errors) {
+      result.errors = model.errors;
+    }
+
+    log({
+      message: 'Data dictionary exported successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName: schemaName || 'all',
+        format,
+        tables: result.tables,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error exporting data dictionary',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName: schemaName || 'all',
+        format,
+      },
+    });
+
+    return toolError(err, 'Unknown error exporting data dictionary');
+  }
+}
+
+export { exportDataDictionary };
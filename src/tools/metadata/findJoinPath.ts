@@ -0,0 +1,118 @@
+import { joinClause, JoinGraph, JoinStep, loadSchemaModel } from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+import { quoteIdentifier } from '../../utils/sqlIdentifiers';
+
+export interface JoinPathResult {
+  catalogName: string;
+  schemaName: string;
+  tables: string[];
+  /** Foreign keys to follow, in join order */
+  steps: JoinStep[];
+  from: string;
+  joins: string[];
+  /** `from` and `joins` as one SQL fragment */
+  sql: string;
+  /** Tables no chain of foreign keys reaches */
+  unreachable?: string[];
+  /** Metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+async function findJoinPath(
+  catalogName: string,
+  schemaName: string,
+  tableNames: string[],
+): Promise<ToolResponse<JoinPathResult>> {
+  try {
+    const model = await loadSchemaModel(catalogName, schemaName);
+    const graph = new JoinGraph(model);
+
+    const tables: string[] = [];
+    const missing: string[] = [];
+    for (const name of tableNames) {
+      const table = graph.resolve(name);
+      if (!table) missing.push(name);
+      else if (!tables.includes(table)) tables.push(table);
+    }
+    if (missing.length > 0) {
+      throw new Error(`Tables not found in ${catalogName}.${schemaName}: ${missing.join(', ')}`);
+    }
+    if (tables.length < 2) {
+      throw new Error('At least two different tables are required');
+    }
+
+    // Grow the join from the first table, each time adding the remaining table
+    // with the shortest path to any table already joined
+    const joined = new Set([tables[0]]);
+    const steps: JoinStep[] = [];
+    let remaining = tables.slice(1);
+    while (remaining.length > 0) {
+      let best: { table: string; path: JoinStep[] } | undefined;
+      for (const table of remaining) {
+        if (joined.has(table)) continue;
+        const path = graph.shortestPath(joined, table);
+        if (path && (!best || path.length < best.path.length)) {
+          best = { table, path };
+        }
+      }
+      if (!best) break;
+      for (const step of best.path) {
+        steps.push(step);
+        joined.add(step.to);
+      }
+      remaining = remaining.filter(table => !joined.has(table));
+    }
+
+    const from = `FROM ${[catalogName, schemaName, tables[0]].map(quoteIdentifier).join('.')} AS ${quoteIdentifier(tables[0])}`;
+    const joins = steps.map(step => joinClause(model, step));
+    const result: JoinPathResult = {
+      catalogName,
+      schemaName,
+      tables,
+      steps,
+      from,
+      joins,
+      sql: [from, ...joins].join('\n'),
+    };
+    if (remaining.length > 0) {
+      result.unreachable = remaining;
+    }
+    if (model.errors) {
+      result.errors = model.errors;
+    }
+
+    log({
+      message: 'Join path found successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName,
+        tables,
+        joins: joins.length,
+        unreachable: remaining.length,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error finding join path',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName,
+        tableNames,
+      },
+    });
+
+    return toolError(err, 'Unknown error finding join path');
+  }
+}
+
+export { findJoinPath };
@@ -0,0 +1,89 @@
+import { DdlOptions, renderDdl, SqlDialect, UnmappedType } from '../../ddl';
+import { loadCatalogModel } from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface DdlResult {
+  catalogName: string;
+  schemaName: string;
+  dialect: SqlDialect;
+  ddl: string;
+  /** Tables in creation order */
+  tables: string[];
+  /** Columns created with the dialect's text type because their type could not be mapped */
+  unmappedTypes: UnmappedType[];
+  warnings: string[];
+  /** Tables from `tableNames` that do not exist in the schema */
+  missingTables?: string[];
+  /** Metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+async function generateDdl(
+  catalogName: string,
+  schemaName: string,
+  dialect: SqlDialect,
+  tableNames?: string[],
+  options: DdlOptions = {},
+): Promise<ToolResponse<DdlResult>> {
+  try {
+    const { schemas, errors } = await loadCatalogModel(catalogName, schemaName, {
+      tableNames,
+      indexes: options.indexes !== false,
+    });
+    const model = schemas.find(schema => schema.schema.toLowerCase() === schemaName.toLowerCase());
+    if (!model || model.tables.length === 0) {
+      throw new Error(
+        tableNames
+          ? `None of the tables ${tableNames.join(', ')} exist in ${catalogName}.${schemaName}`
+          : `Schema ${catalogName}.${schemaName} has no tables`,
+      );
+    }
+
+    const generated = renderDdl(model, dialect, options);
+    const result: DdlResult = { catalogName, schemaName, dialect, ...generated };
+    const missingTables = (tableNames ?? []).filter(
+      name => !model.tables.some(table => table.name.toLowerCase() === name.toLowerCase()),
+    );
+    if (missingTables.length > 0) {
+      result.missingTables = missingTables;
+    }
+    if (errors) {
+      result.errors = errors;
+    }
+
+    log({
+      message: 'DDL generated successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName,
+        dialect,
+        tables: generated.tables.length,
+        unmappedTypes: generated.unmappedTypes.length,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error generating DDL',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName,
+        dialect,
+        tableNames: tableNames || 'all',
+      },
+    });
+
+    return toolError(err, 'Unknown error generating DDL');
+  }
+}
+
+export { generateDdl };
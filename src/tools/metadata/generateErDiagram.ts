@@ -0,0 +1,87 @@
+import { countDrawnRelationships, DiagramFormat, renderErDiagram } from '../../diagrams';
+import { loadSchemaModel } from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface ErDiagramResult {
+  catalogName: string;
+  schemaName: string;
+  format: DiagramFormat;
+  diagram: string;
+  tables: number;
+  relationships: number;
+  /** Tables from `tableNames` that do not exist in the schema */
+  missingTables?: string[];
+  /** Metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+async function generateErDiagram(
+  catalogName: string,
+  schemaName: string,
+  tableNames?: string[],
+  format: DiagramFormat = 'mermaid',
+): Promise<ToolResponse<ErDiagramResult>> {
+  try {
+    const model = await loadSchemaModel(catalogName, schemaName, tableNames);
+    if (model.tables.length === 0) {
+      throw new Error(
+        tableNames
+          ? `None of the tables ${tableNames.join(', ')} exist in ${catalogName}.${schemaName}`
+          : `Schema ${catalogName}.${schemaName} has no tables`,
+      );
+    }
+
+    const result: ErDiagramResult = {
+      catalogName,
+      schemaName,
+      format,
+      diagram: renderErDiagram(model, format),
+      tables: model.tables.length,
+      relationships: countDrawnRelationships(model),
+    };
+    const missingTables = (tableNames ?? []).filter(
+      name => !model.tables.some(table => table.name.toLowerCase() === name.toLowerCase()),
+    );
+    if (missingTables.length > 0) {
+      result.missingTables = missingTables;
+    }
+    if (model.errors) {
+      result.errors = model.errors;
+    }
+
+    log({
+      message: 'ER diagram generated successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName,
+        format,
+        tables: result.tables,
+        relationships: result.relationships,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error generating ER diagram',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName,
+        tableNames: tableNames || 'all',
+        format,
+      },
+    });
+
+    return toolError(err, 'Unknown error generating ER diagram');
+  }
+}
+
+export { generateErDiagram };
@@ -1,20 +1,10 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, CatalogsResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
 
-async function getCatalogs() {
+async function getCatalogs(): Promise<ToolResponse<CatalogsResponse>> {
   try {
-    const response = await fetch(`${CDATA_API_URL}/catalogs`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-    const data = await response.json();
+    const data = await cdataClient.getCatalogs();
     log({
       message: 'Catalogs retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -23,11 +13,7 @@ async function getCatalogs() {
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -43,18 +29,7 @@ async function getCatalogs() {
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching catalogs',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching catalogs');
   }
 }
 
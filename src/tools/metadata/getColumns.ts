@@ -1,41 +1,15 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, ColumnsResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
 
 async function getColumns(
   catalogName?: string,
   schemaName?: string,
   tableName?: string,
   columnName?: string,
-) {
+): Promise<ToolResponse<ColumnsResponse>> {
   try {
-    let url = `${CDATA_API_URL}/columns`;
-    const params = new URLSearchParams();
-
-    if (catalogName) params.append('catalogName', catalogName);
-    if (schemaName) params.append('schemaName', schemaName);
-    if (tableName) params.append('tableName', tableName);
-    if (columnName) params.append('columnName', columnName);
-
-    // Add query parameters if any are specified
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getColumns(catalogName, schemaName, tableName, columnName);
     log({
       message: 'Column information retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -47,11 +21,7 @@ async function getColumns(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -70,18 +40,7 @@ async function getColumns(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching columns',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching columns');
   }
 }
 
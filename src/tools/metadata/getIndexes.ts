@@ -1,40 +1,15 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, IndexesResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
 
 async function getIndexes(
   catalogName?: string,
   schemaName?: string,
   tableName?: string,
   indexName?: string,
-) {
+): Promise<ToolResponse<IndexesResponse>> {
   try {
-    let url = `${CDATA_API_URL}/indexes`;
-    const params = new URLSearchParams();
-
-    if (catalogName) params.append('catalogName', catalogName);
-    if (schemaName) params.append('schemaName', schemaName);
-    if (tableName) params.append('tableName', tableName);
-    if (indexName) params.append('indexName', indexName);
-
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getIndexes(catalogName, schemaName, tableName, indexName);
     log({
       message: 'Indexes information retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -46,11 +21,7 @@ async function getIndexes(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -69,18 +40,7 @@ async function getIndexes(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching indexes',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching indexes');
   }
 }
 
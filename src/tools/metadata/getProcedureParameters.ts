@@ -1,40 +1,20 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, ProcedureParametersResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
 
 async function getProcedureParameters(
   catalogName?: string,
   schemaName?: string,
   procedureName?: string,
   paramName?: string,
-) {
+): Promise<ToolResponse<ProcedureParametersResponse>> {
   try {
-    let url = `${CDATA_API_URL}/procedureParameters`;
-    const params = new URLSearchParams();
-
-    if (catalogName) params.append('catalogName', catalogName);
-    if (schemaName) params.append('schemaName', schemaName);
-    if (procedureName) params.append('procedureName', procedureName);
-    if (paramName) params.append('paramName', paramName);
-
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getProcedureParameters(
+      catalogName,
+      schemaName,
+      procedureName,
+      paramName,
+    );
     log({
       message: 'Procedure parameters information retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -46,11 +26,7 @@ async function getProcedureParameters(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -69,18 +45,7 @@ async function getProcedureParameters(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching procedure parameters',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching procedure parameters');
   }
 }
 
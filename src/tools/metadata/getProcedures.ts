@@ -1,34 +1,14 @@
-import { CDATA_API_URL, log, error } from '../config';
-
-async function getProcedures(catalogName?: string, schemaName?: string, procedureName?: string) {
+import { cdataClient, ProceduresResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+async function getProcedures(
+  catalogName?: string,
+  schemaName?: string,
+  procedureName?: string,
+): Promise<ToolResponse<ProceduresResponse>> {
   try {
-    let url = `${CDATA_API_URL}/procedures`;
-    const params = new URLSearchParams();
-
-    if (catalogName) params.append('catalogName', catalogName);
-    if (schemaName) params.append('schemaName', schemaName);
-    if (procedureName) params.append('procedureName', procedureName);
-
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getProcedures(catalogName, schemaName, procedureName);
     log({
       message: 'Procedures information retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -39,11 +19,7 @@ async function getProcedures(catalogName?: string, schemaName?: string, procedur
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -61,18 +37,7 @@ async function getProcedures(catalogName?: string, schemaName?: string, procedur
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching procedures',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching procedures');
   }
 }
 
@@ -1,28 +1,10 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, SchemasResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
 
-async function getSchemas(catalogName?: string) {
+async function getSchemas(catalogName?: string): Promise<ToolResponse<SchemasResponse>> {
   try {
-    let url = `${CDATA_API_URL}/schemas`;
-
-    if (catalogName) {
-      url += `?catalogName=${encodeURIComponent(catalogName)}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getSchemas(catalogName);
     log({
       message: 'Schemas retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -31,11 +13,7 @@ async function getSchemas(catalogName?: string) {
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -51,18 +29,7 @@ async function getSchemas(catalogName?: string) {
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching schemas',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching schemas');
   }
 }
 
@@ -1,34 +1,14 @@
-import { CDATA_API_URL, log, error } from '../config';
-
-async function getTables(catalogName?: string, schemaName?: string, tableName?: string) {
+import { cdataClient, TablesResponse } from '../../client';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+async function getTables(
+  catalogName?: string,
+  schemaName?: string,
+  tableName?: string,
+): Promise<ToolResponse<TablesResponse>> {
   try {
-    let url = `${CDATA_API_URL}/tables`;
-    const params = new URLSearchParams();
-
-    if (catalogName) params.append('catalogName', catalogName);
-    if (schemaName) params.append('schemaName', schemaName);
-    if (tableName) params.append('tableName', tableName);
-
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await cdataClient.getTables(catalogName, schemaName, tableName);
     log({
       message: 'Tables information retrieved successfully',
       timestamp: new Date().toISOString(),
@@ -39,11 +19,7 @@ async function getTables(catalogName?: string, schemaName?: string, tableName?:
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -61,18 +37,7 @@ async function getTables(catalogName?: string, schemaName?: string, tableName?:
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error fetching tables',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error fetching tables');
   }
 }
 
@@ -1,5 +1,12 @@
 export { getCatalogs } from './getCatalogs';
+export { describeTable, loadTableDescription } from './describeTable';
+export type { TableDescription } from './describeTable';
+export { diffSchema } from './diffSchema';
 export { getColumns } from './getColumns';
+export { exportDataDictionary } from './exportDataDictionary';
+export { findJoinPath } from './findJoinPath';
+export { generateDdl } from './generateDdl';
+export { generateErDiagram } from './generateErDiagram';
 export { getExportedKeys } from './getExportedKeys';
 export { getImportedKeys } from './getImportedKeys';
 export { getIndexes } from './getIndexes';
@@ -8,3 +15,6 @@ export { getProcedures } from './getProcedures';
 export { getProcedureParameters } from './getProcedureParameters';
 export { getSchemas } from './getSchemas';
 export { getTables } from './getTables';
+export { refreshMetadata } from './refreshMetadata';
+export { searchMetadata } from './searchMetadata';
+export { snapshotSchema } from './snapshotSchema';
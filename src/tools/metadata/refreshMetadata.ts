@@ -0,0 +1,61 @@
+import { cdataClient } from '../../client';
+import { clearCompletionCache } from '../../completions';
+import { clearSearchIndex } from '../../search';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface RefreshMetadataResult {
+  catalogName?: string;
+  schemaName?: string;
+  /** Number of the caller's cached metadata responses dropped */
+  invalidatedEntries: number;
+  message: string;
+}
+
+async function refreshMetadata(
+  catalogName?: string,
+  schemaName?: string,
+): Promise<ToolResponse<RefreshMetadataResult>> {
+  try {
+    const invalidatedEntries = cdataClient.invalidateMetadata({ catalogName, schemaName });
+    clearCompletionCache(catalogName, schemaName);
+    clearSearchIndex();
+
+    const scope = [catalogName, schemaName].filter(Boolean).join('.') || 'all catalogs';
+    log({
+      message: 'Metadata cache invalidated',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName: catalogName || 'all',
+        schemaName: schemaName || 'all',
+        invalidatedEntries,
+      },
+    });
+
+    return toolResult({
+      catalogName,
+      schemaName,
+      invalidatedEntries,
+      message: `Cached metadata for ${scope} was cleared; the next metadata calls fetch fresh results.`,
+    });
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error invalidating metadata cache',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName: catalogName || 'all',
+        schemaName: schemaName || 'all',
+      },
+    });
+
+    return toolError(err, 'Unknown error invalidating metadata cache');
+  }
+}
+
+export { refreshMetadata };
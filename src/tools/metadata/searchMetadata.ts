@@ -0,0 +1,66 @@
+import { loadMetadataIndex, SearchMatch } from '../../search';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface SearchMetadataResult {
+  query: string;
+  matches: SearchMatch[];
+  indexedTables: number;
+  indexedColumns: number;
+  indexBuiltAt: string;
+  /** Catalogs that could not be indexed, with the reason */
+  errors?: Record<string, string>;
+}
+
+async function searchMetadata(
+  query: string,
+  catalogName?: string,
+  kind?: 'table' | 'column',
+  limit?: number,
+): Promise<ToolResponse<SearchMetadataResult>> {
+  try {
+    const { index, builtAt, errors } = await loadMetadataIndex();
+    const matches = index.search(query, { catalogName, kind, limit });
+    log({
+      message: 'Metadata search completed successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        query,
+        catalogName: catalogName || 'all',
+        kind: kind || 'all',
+        matches: matches.length,
+      },
+    });
+
+    const result: SearchMetadataResult = {
+      query,
+      matches,
+      indexedTables: index.tableCount,
+      indexedColumns: index.columnCount,
+      indexBuiltAt: builtAt,
+    };
+    if (Object.keys(errors).length > 0) {
+      result.errors = errors;
+    }
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error searching metadata',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        query,
+        catalogName: catalogName || 'all',
+      },
+    });
+
+    return toolError(err, 'Unknown error searching metadata');
+  }
+}
+
+export { searchMetadata };
@@ -0,0 +1,60 @@
+import { captureSnapshot, summarizeSnapshot, SnapshotSummary } from '../../schema';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+
+export interface SnapshotSchemaResult extends SnapshotSummary {
+  file: string;
+  schemas: number;
+  /** Metadata that could not be loaded, keyed by part */
+  errors?: Record<string, string>;
+}
+
+async function snapshotSchema(
+  catalogName: string,
+  schemaName?: string,
+  name?: string,
+): Promise<ToolResponse<SnapshotSchemaResult>> {
+  try {
+    const { snapshot, file } = await captureSnapshot(catalogName, schemaName, name);
+    const result: SnapshotSchemaResult = {
+      ...summarizeSnapshot(snapshot),
+      file,
+      schemas: snapshot.schemas.length,
+    };
+    if (snapshot.errors) {
+      result.errors = snapshot.errors;
+    }
+
+    log({
+      message: 'Schema snapshot captured successfully',
+      timestamp: new Date().toISOString(),
+      details: {
+        catalogName,
+        schemaName: schemaName || 'all',
+        name: snapshot.name,
+        tables: result.tables,
+      },
+    });
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error capturing schema snapshot',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName: schemaName || 'all',
+        name,
+      },
+    });
+
+    return toolError(err, 'Unknown error capturing schema snapshot');
+  }
+}
+
+export { snapshotSchema };
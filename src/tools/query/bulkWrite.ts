@@ -0,0 +1,402 @@
+import { cdataClient, CDataParameters, toRecords } from '../../client';
+import { canonicalType, ModelColumn, parameterTypeCode, toColumn } from '../../schema';
+import { RequestCancelledError, RequestTimeoutError, withTimeout } from '../../utils/abort';
+import { startProgress } from '../../utils/progress';
+import { quoteIdentifier } from '../../utils/sqlIdentifiers';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+import {
+  CONFIRM_WRITES,
+  consumeConfirmation,
+  previewBulkWrite,
+  WritePreview,
+} from './confirmation';
+import { checkParameterValue } from './parameterBinding';
+import { QUERY_TIMEOUT_MS } from './queryData';
+import { READ_ONLY, ReadOnlyViolationError } from './readOnly';
+
+export const BULK_WRITE_MODES = ['insert', 'update', 'upsert', 'delete'] as const;
+
+export type BulkWriteMode = (typeof BULK_WRITE_MODES)[number];
+
+const MAX_BATCH_SIZE = 1000;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Rows sent to Connect Cloud in one request unless the call sets `batchSize`,
+ * kept within the 1 to 1000 rows a call may ask for
+ */
+export const BULK_WRITE_BATCH_SIZE = Math.min(
+  Math.max(envInt('BULK_WRITE_BATCH_SIZE', 100), 1),
+  MAX_BATCH_SIZE,
+);
+
+export interface BulkWriteOptions {
+  /** Columns that identify a row; the table's primary key when omitted */
+  keyColumns?: string[];
+  /** Rows per request */
+  batchSize?: number;
+  /** Write the valid rows even if some are invalid, and keep going after a failed batch */
+  continueOnError?: boolean;
+}
+
+/**
+ * Outcome of one input row
+ * - ok: written; `affectedRows` is what the source reported for its statement
+ * - invalid: rejected before anything was sent
+ * - failed: sent on its own and rejected by the source, so it was not written
+ * - unknown: its batch failed, was cancelled or timed out after being sent, so
+ *   the source may or may not have applied it
+ * - skipped: not sent because an earlier row was invalid or an earlier batch failed
+ */
+export interface BulkWriteRowResult {
+  index: number;
+  status: 'ok' | 'invalid' | 'failed' | 'unknown' | 'skipped';
+  affectedRows?: number;
+  error?: string;
+}
+
+export interface BulkWriteResult {
+  table: string;
+  mode: BulkWriteMode;
+  keyColumns: string[];
+  totalRows: number;
+  succeeded: number;
+  failed: number;
+  unknown: number;
+  invalid: number;
+  skipped: number;
+  batches: number;
+  rows: BulkWriteRowResult[];
+}
+
+interface RowStatement {
+  index: number;
+  sql: string;
+  parameters: CDataParameters;
+}
+
+/**
+ * Error raised when a bulk write or one of its rows is invalid
+ */
+export class BulkWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkWriteError';
+  }
+}
+
+/**
+ * Load the columns and primary key of the target table
+ */
+async function loadTable(
+  catalogName: string,
+  schemaName: string,
+  tableName: string,
+): Promise<{ columns: ModelColumn[]; primaryKey: string[] }> {
+  const [columns, primaryKeys] = await Promise.all([
+    cdataClient.getColumns(catalogName, schemaName, tableName),
+    cdataClient.getPrimaryKeys(catalogName, schemaName, tableName),
+  ]);
+  const columnRows = toRecords(columns).sort(
+    (a, b) => (a.ORDINAL_POSITION ?? 0) - (b.ORDINAL_POSITION ?? 0),
+  );
+  if (columnRows.length === 0) {
+    throw new BulkWriteError(
+      `Table ${catalogName}.${schemaName}.${tableName} has no columns or does not exist`,
+    );
+  }
+  return {
+    columns: columnRows.map(toColumn),
+    primaryKey: toRecords(primaryKeys)
+      .sort((a, b) => (a.KEY_SEQ ?? 0) - (b.KEY_SEQ ?? 0))
+      .map(row => row.COLUMN_NAME),
+  };
+}
+
+/**
+ * Build the parameterized statement that writes one row
+ * @throws BulkWriteError describing why the row is invalid
+ */
+function rowStatement(
+  table: string,
+  mode: BulkWriteMode,
+  columns: ModelColumn[],
+  keyColumns: string[],
+  row: unknown,
+  index: number,
+): RowStatement {
+  if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+    throw new BulkWriteError('Row is not a JSON object');
+  }
+
+  const values = new Map<ModelColumn, unknown>();
+  const unknown: string[] = [];
+  for (const [name, value] of Object.entries(row)) {
+    const column = columns.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (column) values.set(column, value);
+    else unknown.push(name);
+  }
+  if (unknown.length > 0) {
+    throw new BulkWriteError(`Unknown columns: ${unknown.join(', ')}`);
+  }
+
+  const keys = new Set(keyColumns);
+  const parameters: CDataParameters = {};
+  const bind = (column: ModelColumn) => {
+    const name = `@p${index}_${columns.indexOf(column)}`;
+    const value = values.get(column);
+    if (value === null && !column.nullable) {
+      throw new BulkWriteError(`Column ${column.name} does not accept null`);
+    }
+    const type = canonicalType(column);
+    parameters[name] = {
+      dataType: parameterTypeCode(type),
+      value: type ? checkParameterValue(`Column ${column.name}`, type, value) : value,
+    };
+    return name;
+  };
+  const where = () =>
+    keyColumns
+      .map(key => {
+        const column = columns.find(candidate => candidate.name === key)!;
+        if (values.get(column) === undefined || values.get(column) === null) {
+          throw new BulkWriteError(`Key column ${key} is missing`);
+        }
+        return `${quoteIdentifier(key)} = ${bind(column)}`;
+      })
+      .join(' AND ');
+
+  const written = [...values.keys()];
+  let sql: string;
+  switch (mode) {
+    case 'insert':
+    case 'upsert': {
+      if (mode === 'insert') {
+        const missing = columns.filter(
+          column =>
+            !column.nullable &&
+            column.default === undefined &&
+            !column.autoIncrement &&
+            !values.has(column),
+        );
+        if (missing.length > 0) {
+          throw new BulkWriteError(
+            `Required columns are missing: ${missing.map(column => column.name).join(', ')}`,
+          );
+        }
+      } else {
+        const missingKeys = keyColumns.filter(key => !written.some(column => column.name === key));
+        if (missingKeys.length > 0) {
+          throw new BulkWriteError(`Key columns are missing: ${missingKeys.join(', ')}`);
+        }
+      }
+      if (written.length === 0) {
+        throw new BulkWriteError('Row has no columns');
+      }
+      // Keep the table's column order so every row of a batch reads the same way
+      const ordered = columns.filter(column => values.has(column));
+      sql =
+        `${mode === 'insert' ? 'INSERT' : 'UPSERT'} INTO ${table} ` +
+        `(${ordered.map(column => quoteIdentifier(column.name)).join(', ')}) ` +
+        `VALUES (${ordered.map(bind).join(', ')})`;
+      break;
+    }
+    case 'update': {
+      const assigned = columns.filter(column => values.has(column) && !keys.has(column.name));
+      if (assigned.length === 0) {
+        throw new BulkWriteError('Row has no columns to update besides the key columns');
+      }
+      const assignments = assigned
+        .map(column => `${quoteIdentifier(column.name)} = ${bind(column)}`)
+        .join(', ');
+      sql = `UPDATE ${table} SET ${assignments} WHERE ${where()}`;
+      break;
+    }
+    case 'delete':
+      sql = `DELETE FROM ${table} WHERE ${where()}`;
+      break;
+  }
+  return { index, sql, parameters };
+}
+
+/**
+ * Write an array of JSON rows to a table. Rows are checked against the table's
+ * columns and key, turned into one parameterized statement each, and sent in
+ * batches of `batchSize` statements through the query endpoint.
+ * @param catalogName The catalog (connection) of the table
+ * @param schemaName The schema of the table
+ * @param tableName The table to write to
+ * @param mode insert, update, upsert or delete
+ * @param rows Rows keyed by column name
+ * @param options Key columns, batch size and error handling
+ * @param confirmationToken Token from a previous preview when CONFIRM_WRITES is on
+ */
+async function bulkWrite(
+  catalogName: string,
+  schemaName: string,
+  tableName: string,
+  mode: BulkWriteMode,
+  rows: unknown[],
+  options: BulkWriteOptions = {},
+  confirmationToken?: string,
+): Promise<ToolResponse<BulkWriteResult | WritePreview>> {
+  try {
+    if (READ_ONLY) {
+      throw new ReadOnlyViolationError('Read-only mode: bulkWrite is disabled.');
+    }
+    if (rows.length === 0) {
+      throw new BulkWriteError('No rows to write');
+    }
+    const batchSize = Math.min(
+      Math.max(options.batchSize ?? BULK_WRITE_BATCH_SIZE, 1),
+      MAX_BATCH_SIZE,
+    );
+
+    const { columns, primaryKey } = await loadTable(catalogName, schemaName, tableName);
+    const keyColumns = (options.keyColumns ?? primaryKey).map(key => {
+      const column = columns.find(candidate => candidate.name.toLowerCase() === key.toLowerCase());
+      if (!column) {
+        throw new BulkWriteError(`Key column ${key} is not a column of ${tableName}`);
+      }
+      return column.name;
+    });
+    if (mode !== 'insert' && keyColumns.length === 0) {
+      throw new BulkWriteError(
+        `Table ${tableName} has no primary key; set keyColumns to ${mode} its rows`,
+      );
+    }
+
+    const table = [catalogName, schemaName, tableName].map(quoteIdentifier).join('.');
+    const results: BulkWriteRowResult[] = [];
+    const statements: RowStatement[] = [];
+    rows.forEach((row, index) => {
+      try {
+        statements.push(rowStatement(table, mode, columns, keyColumns, row, index));
+        results.push({ index, status: 'skipped' });
+      } catch (err: any) {
+        results.push({ index, status: 'invalid', error: err.message });
+      }
+    });
+
+    const result: BulkWriteResult = {
+      table: `${catalogName}.${schemaName}.${tableName}`,
+      mode,
+      keyColumns,
+      totalRows: rows.length,
+      succeeded: 0,
+      failed: 0,
+      unknown: 0,
+      invalid: rows.length - statements.length,
+      skipped: 0,
+      batches: 0,
+      rows: results,
+    };
+
+    // Nothing is written when a row is invalid, unless the caller asked to skip those rows
+    const canWrite = statements.length > 0 && (result.invalid === 0 || options.continueOnError);
+    if (canWrite && CONFIRM_WRITES) {
+      const request = {
+        tool: 'bulkWrite' as const,
+        table,
+        mode,
+        keyColumns,
+        rows: rows as Record<string, unknown>[],
+        options: { batchSize, continueOnError: options.continueOnError ?? false },
+      };
+      if (!confirmationToken) {
+        return toolResult(previewBulkWrite(request, statements[0].sql, statements.length));
+      }
+      consumeConfirmation(confirmationToken, request);
+    }
+
+    const progress = canWrite
+      ? startProgress(statements.length, `Writing ${statements.length} rows`)
+      : undefined;
+    for (let start = 0; canWrite && start < statements.length; start += batchSize) {
+      const batch = statements.slice(start, start + batchSize);
+      result.batches++;
+      try {
+        const response = await withTimeout(QUERY_TIMEOUT_MS, `Batch ${result.batches}`, () =>
+          cdataClient.query({
+            query: batch.map(statement => statement.sql).join(';\n'),
+            parameters: Object.assign({}, ...batch.map(statement => statement.parameters)),
+          }),
+        );
+        batch.forEach((statement, position) => {
+          const affectedRows = response.results?.[position]?.affectedRows;
+          results[statement.index] = {
+            index: statement.index,
+            status: 'ok',
+            ...(affectedRows !== undefined && affectedRows >= 0 && { affectedRows }),
+          };
+        });
+      } catch (err: any) {
+        // Batches are not transactions: the source may have applied the statements
+        // before the one that failed, and an abandoned call may have been applied whole
+        const abandoned =
+          err instanceof RequestCancelledError || err instanceof RequestTimeoutError;
+        const status = batch.length === 1 && !abandoned ? 'failed' : 'unknown';
+        for (const statement of batch) {
+          results[statement.index] = { index: statement.index, status, error: err.message };
+        }
+        // A cancelled call stops the write even when failed batches are skipped
+        if (!options.continueOnError || err instanceof RequestCancelledError) break;
+      }
+      progress?.advance(
+        `Sent batch ${result.batches} (${Math.min(start + batchSize, statements.length)} of ${statements.length} rows)`,
+        batch.length,
+      );
+    }
+
+    for (const row of results) {
+      if (row.status === 'ok') result.succeeded++;
+      else if (row.status === 'failed') result.failed++;
+      else if (row.status === 'unknown') result.unknown++;
+      else if (row.status === 'skipped') result.skipped++;
+    }
+
+    log({
+      message: 'Bulk write finished',
+      timestamp: new Date().toISOString(),
+      details: {
+        table: result.table,
+        mode,
+        totalRows: result.totalRows,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        unknown: result.unknown,
+        invalid: result.invalid,
+        batches: result.batches,
+      },
+    });
+
+    return toolResult(result);
+  } catch (err: any) {
+    error({
+      level: 'error',
+      message: 'Error during bulk write',
+      timestamp: new Date().toISOString(),
+      error: {
+        name: err.name,
+        message: err.message,
+        stack: err.stack,
+      },
+      details: {
+        catalogName,
+        schemaName,
+        tableName,
+        mode,
+        rowCount: rows.length,
+      },
+    });
+
+    return toolError(err, 'Unknown error during bulk write');
+  }
+}
+
+export { bulkWrite };
@@ -0,0 +1,267 @@
+import { randomUUID } from 'crypto';
+import { cdataClient, CDataParameters } from '../../client';
+import { getRequestContext } from '../../utils/requestContext';
+import {
+  ClassifiedStatement,
+  findTopLevelWord,
+  statementSource,
+  targetName,
+  targetRange,
+} from './sqlClassifier';
+
+/**
+ * When enabled, mutating `queryData`, `execData` and `bulkWrite` calls return a preview and
+ * only run when repeated with the confirmation token from that preview
+ */
+export const CONFIRM_WRITES = process.env.CONFIRM_WRITES === 'true';
+
+const CONFIRMATION_TTL_MS = parseInt(process.env.CONFIRMATION_TTL_MS || '300000');
+
+/**
+ * The call a confirmation token was issued for. The confirmed call must match it exactly.
+ */
+export type ConfirmableRequest =
+  | { tool: 'queryData'; query: string; defaultSchema?: string; parameters?: CDataParameters }
+  | {
+      tool: 'execData';
+      procedure: string;
+      defaultSchema?: string;
+      parameters?: CDataParameters;
+    }
+  | {
+      tool: 'bulkWrite';
+      table: string;
+      mode: string;
+      keyColumns: string[];
+      rows: Record<string, unknown>[];
+      options: Record<string, unknown>;
+    };
+
+export interface StatementPreview {
+  index: number;
+  kind: string;
+  statement: string;
+  target?: string;
+  /** Estimated number of affected rows; null when it cannot be estimated */
+  estimatedRows: number | null;
+  estimateError?: string;
+}
+
+export interface WritePreview {
+  confirmationRequired: true;
+  confirmationToken: string;
+  expiresAt: string;
+  message: string;
+  statements?: StatementPreview[];
+  procedure?: string;
+  parameters?: CDataParameters;
+}
+
+interface PendingConfirmation {
+  fingerprint: string;
+  owner: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Error raised when a confirmation token is missing, expired or does not match the call
+ */
+export class ConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfirmationError';
+  }
+}
+
+function confirmationOwner(): string {
+  const context = getRequestContext();
+  return context?.sessionId ?? context?.credentials?.username ?? process.env.CDATA_USERNAME ?? '';
+}
+
+/**
+ * Serialize a call with sorted object keys so argument order does not matter
+ */
+function fingerprint(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(fingerprint).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${fingerprint(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function issueToken(request: ConfirmableRequest): { token: string; expiresAt: number } {
+  const now = Date.now();
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+  const token = randomUUID();
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pending.set(token, { fingerprint: fingerprint(request), owner: confirmationOwner(), expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Consume a confirmation token. Tokens are single use and bound to the exact
+ * call and caller they were issued for.
+ * @throws ConfirmationError when the token cannot be used for this call
+ */
+export function consumeConfirmation(token: string, request: ConfirmableRequest): void {
+  const entry = pending.get(token);
+  pending.delete(token);
+  if (!entry || entry.expiresAt <= Date.now() || entry.owner !== confirmationOwner()) {
+    throw new ConfirmationError(
+      'Invalid or expired confirmation token. Call again without a token to get a new preview.',
+    );
+  }
+  if (entry.fingerprint !== fingerprint(request)) {
+    throw new ConfirmationError(
+      'The confirmation token was issued for a different call. Repeat the previewed call exactly, or request a new preview.',
+    );
+  }
+}
+
+/**
+ * Build a SELECT COUNT(*) that matches the rows an UPDATE or DELETE would touch
+ */
+function countQuery(statement: ClassifiedStatement): string | undefined {
+  if (statement.kind !== 'update' && statement.kind !== 'delete') {
+    return undefined;
+  }
+  const range = targetRange(statement);
+  if (!range) {
+    return undefined;
+  }
+  const table = statementSource(statement, range.start, range.end);
+  const where = findTopLevelWord(statement.tokens, 'WHERE', range.end);
+  const filter = where < 0 ? '' : ` ${statementSource(statement, where, statement.tokens.length)}`;
+  return `SELECT COUNT(*) FROM ${table}${filter}`;
+}
+
+/**
+ * Count the row tuples of an INSERT ... VALUES statement
+ */
+function countValueTuples(statement: ClassifiedStatement): number | undefined {
+  const values = findTopLevelWord(statement.tokens, 'VALUES', statement.keywordIndex + 1);
+  if (values < 0) {
+    return undefined;
+  }
+  let depth = 0;
+  let tuples = 0;
+  for (const token of statement.tokens.slice(values + 1)) {
+    if (token.type !== 'symbol') continue;
+    if (token.value === '(' && depth++ === 0) tuples++;
+    else if (token.value === ')') depth--;
+  }
+  return tuples;
+}
+
+async function estimateRows(
+  statement: ClassifiedStatement,
+  defaultSchema?: string,
+  parameters?: CDataParameters,
+): Promise<Pick<StatementPreview, 'estimatedRows' | 'estimateError'>> {
+  const tuples = countValueTuples(statement);
+  if (tuples !== undefined) {
+    return { estimatedRows: tuples };
+  }
+  const query = countQuery(statement);
+  if (!query) {
+    return { estimatedRows: null };
+  }
+  try {
+    const response = await cdataClient.query({ query, defaultSchema, parameters });
+    const count = Number(response.results?.[0]?.rows?.[0]?.[0]);
+    return { estimatedRows: Number.isNaN(count) ? null : count };
+  } catch (err: any) {
+    return { estimatedRows: null, estimateError: err.message };
+  }
+}
+
+/**
+ * Describe what a write batch would do and issue a token to run it
+ * @param statements The classified statements of the batch
+ * @param request The call being previewed
+ */
+export async function previewQuery(
+  statements: ClassifiedStatement[],
+  request: Extract<ConfirmableRequest, { tool: 'queryData' }>,
+): Promise<WritePreview> {
+  const previews: StatementPreview[] = [];
+  for (const [index, statement] of statements.entries()) {
+    if (statement.readOnly) continue;
+    previews.push({
+      index: index + 1,
+      kind: statement.kind,
+      statement: statement.text,
+      target: targetName(statement),
+      ...(await estimateRows(statement, request.defaultSchema, request.parameters)),
+    });
+  }
+
+  const { token, expiresAt } = issueToken(request);
+  return {
+    confirmationRequired: true,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message:
+      'This query modifies data and has not been run. Review the preview, then repeat the same call with confirmationToken to execute it.',
+    statements: previews,
+  };
+}
+
+/**
+ * Describe a procedure call and issue a token to run it
+ * @param request The call being previewed
+ */
+export function previewProcedure(
+  request: Extract<ConfirmableRequest, { tool: 'execData' }>,
+): WritePreview {
+  const { token, expiresAt } = issueToken(request);
+  return {
+    confirmationRequired: true,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message:
+      'Stored procedures may modify data and this one has not been run. Review the preview, then repeat the same call with confirmationToken to execute it.',
+    procedure: request.procedure,
+    parameters: request.parameters,
+  };
+}
+
+/**
+ * Describe a bulk write and issue a token to run it
+ * @param request The call being previewed
+ * @param statement The statement written for the first row
+ * @param rowCount Number of rows that would be written
+ */
+export function previewBulkWrite(
+  request: Extract<ConfirmableRequest, { tool: 'bulkWrite' }>,
+  statement: string,
+  rowCount: number,
+): WritePreview {
+  const { token, expiresAt } = issueToken(request);
+  return {
+    confirmationRequired: true,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message: `This bulk ${request.mode} writes ${rowCount} row(s) and has not been run. Review the preview, then repeat the same call with confirmationToken to execute it.`,
+    statements: [
+      {
+        index: 1,
+        kind: request.mode,
+        statement,
+        target: request.table,
+        estimatedRows: rowCount,
+      },
+    ],
+  };
+}
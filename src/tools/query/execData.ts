@@ -1,31 +1,52 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, CDataParameters, ExecResponse } from '../../client';
+import { withTimeout } from '../../utils/abort';
+import { startProgress } from '../../utils/progress';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+import { assertProcedureAllowed } from './readOnly';
+import {
+  CONFIRM_WRITES,
+  consumeConfirmation,
+  previewProcedure,
+  WritePreview,
+} from './confirmation';
+import { approveProcedureCall, EXEC_APPROVAL } from './procedureApproval';
+import { bindProcedureParameters, ParameterInputs } from './parameterBinding';
+
+/**
+ * How long a stored procedure may run upstream before it is abandoned; 0 disables the limit
+ */
+export const EXEC_TIMEOUT_MS = parseInt(process.env.EXEC_TIMEOUT_MS || '300000');
 
 async function execData(
   procedure: string,
   defaultSchema?: string,
-  parameters?: Record<string, { dataType: number; direction?: number; value?: any }>,
-) {
+  inputs?: ParameterInputs,
+  confirmationToken?: string,
+): Promise<ToolResponse<ExecResponse | WritePreview>> {
+  let parameters: CDataParameters | undefined;
   try {
-    const response = await fetch(`${CDATA_API_URL}/exec`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-      body: JSON.stringify({
-        procedure,
-        defaultSchema,
-        parameters,
-      }),
-    });
+    assertProcedureAllowed(procedure);
+    parameters = await bindProcedureParameters(procedure, defaultSchema, inputs);
 
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
+    // Only a human approval through a prompt replaces the confirmation token
+    const approval = EXEC_APPROVAL
+      ? await approveProcedureCall(procedure, defaultSchema, parameters)
+      : undefined;
+    const requireToken = approval === 'token' || (approval !== 'approved' && CONFIRM_WRITES);
+    if (requireToken) {
+      const request = { tool: 'execData' as const, procedure, defaultSchema, parameters };
+      if (!confirmationToken) {
+        return toolResult(previewProcedure(request));
+      }
+      consumeConfirmation(confirmationToken, request);
     }
 
-    const data = await response.json();
+    const progress = startProgress(1, `Running procedure ${procedure}`);
+    const data = await withTimeout(EXEC_TIMEOUT_MS, `Procedure ${procedure}`, () =>
+      cdataClient.exec({ procedure, defaultSchema, parameters }),
+    );
+    progress.advance(`Procedure ${procedure} finished`);
     log({
       message: 'Stored procedure executed successfully',
       timestamp: new Date().toISOString(),
@@ -36,11 +57,7 @@ async function execData(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -54,22 +71,11 @@ async function execData(
       details: {
         procedure,
         defaultSchema,
-        parameterCount: parameters ? Object.keys(parameters).length : 0,
+        parameterCount: inputs ? Object.keys(inputs).length : 0,
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error during stored procedure execution',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error during stored procedure execution');
   }
 }
 
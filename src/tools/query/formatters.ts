@@ -0,0 +1,223 @@
+import { ColumnInfo, ResultSet } from '../../client';
+
+export const OUTPUT_FORMATS = ['json', 'compact', 'csv', 'markdown', 'ndjson'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Query or exec result as returned by the tool functions, including the
+ * optional paging fields added by `queryData`
+ */
+export interface FormattableResult {
+  results?: ResultSet[];
+  offset?: number;
+  hasMore?: boolean;
+  nextCursor?: string;
+  truncated?: boolean;
+}
+
+export interface ColumnHeader {
+  name: string;
+  type?: string;
+}
+
+function columnHeaders(schema: ColumnInfo[]): ColumnHeader[] {
+  return schema.map(column => ({
+    name: column.columnLabel || column.columnName,
+    type:
+      column.dataTypeName ?? (column.dataType !== undefined ? String(column.dataType) : undefined),
+  }));
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvCell(value: unknown): string {
+  const text = toText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: unknown): string {
+  return toText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function pagingFields(result: FormattableResult) {
+  if (result.hasMore === undefined) {
+    return undefined;
+  }
+  return {
+    offset: result.offset,
+    hasMore: result.hasMore,
+    nextCursor: result.nextCursor,
+    ...(result.truncated && { truncated: true }),
+  };
+}
+
+function pagingLine(result: FormattableResult): string | undefined {
+  const paging = pagingFields(result);
+  if (!paging) {
+    return undefined;
+  }
+  const line = paging.hasMore
+    ? `hasMore: true, nextCursor: ${paging.nextCursor}`
+    : 'hasMore: false';
+  return paging.truncated ? `${line}, truncated: true` : line;
+}
+
+function formatCsv(resultSet: ResultSet): string {
+  const headers = columnHeaders(resultSet.schema);
+  const lines = [
+    `# types: ${headers.map(header => csvCell(header.type ?? '')).join(',')}`,
+    headers.map(header => csvCell(header.name)).join(','),
+    ...resultSet.rows.map(row => row.map(csvCell).join(',')),
+  ];
+  return lines.join('\n');
+}
+
+function formatMarkdown(resultSet: ResultSet): string {
+  const headers = columnHeaders(resultSet.schema);
+  const titles = headers.map(header =>
+    markdownCell(header.type ? `${header.name} (${header.type})` : header.name),
+  );
+  const lines = [
+    `| ${titles.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...resultSet.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+  ];
+  return lines.join('\n');
+}
+
+function formatNdjson(resultSet: ResultSet): string {
+  const { columns, rows } = structuredResultSet(resultSet);
+  return [JSON.stringify({ columns }), ...rows.map(row => JSON.stringify(row))].join('\n');
+}
+
+/**
+ * Column-oriented JSON: one array of values per column instead of one object per row
+ */
+function compactResultSet(resultSet: ResultSet) {
+  const headers = columnHeaders(resultSet.schema);
+  return {
+    columns: headers,
+    values: headers.map((_, index) => resultSet.rows.map(row => row[index])),
+    ...(resultSet.affectedRows !== undefined && resultSet.affectedRows >= 0
+      ? { affectedRows: resultSet.affectedRows }
+      : {}),
+  };
+}
+
+/**
+ * Render a statement that produced no columns, such as an INSERT or UPDATE
+ */
+function formatNoColumns(resultSet: ResultSet, format: OutputFormat): string {
+  const affectedRows = resultSet.affectedRows ?? 0;
+  return format === 'ndjson' ? JSON.stringify({ affectedRows }) : `Affected rows: ${affectedRows}`;
+}
+
+/**
+ * Format a query or exec result for the model
+ * @param output The result returned by the tool function
+ * @param format The requested output format
+ * @returns The formatted text
+ */
+export function formatResult(
+  output: FormattableResult | object,
+  format: OutputFormat = 'json',
+): string {
+  // Write previews and other non-tabular results are always returned as JSON
+  if (format === 'json' || !('results' in output)) {
+    return JSON.stringify(output, null, 2);
+  }
+
+  const result = output as FormattableResult;
+  const resultSets = result.results ?? [];
+  if (format === 'compact') {
+    return JSON.stringify({ results: resultSets.map(compactResultSet), ...pagingFields(result) });
+  }
+
+  if (format === 'ndjson') {
+    // Each result set starts with its own `columns` line, so no separators are needed
+    const lines = resultSets.map(resultSet =>
+      resultSet.schema.length > 0 ? formatNdjson(resultSet) : formatNoColumns(resultSet, format),
+    );
+    const paging = pagingFields(result);
+    if (paging) {
+      lines.push(JSON.stringify(paging));
+    }
+    return lines.join('\n');
+  }
+
+  const render = format === 'csv' ? formatCsv : formatMarkdown;
+  const sections = resultSets.map((resultSet, index) => {
+    const body =
+      resultSet.schema.length > 0 ? render(resultSet) : formatNoColumns(resultSet, format);
+    if (resultSets.length === 1) {
+      return body;
+    }
+    const title = `Result set ${index + 1}`;
+    return format === 'markdown' ? `### ${title}\n\n${body}` : `# ${title}\n${body}`;
+  });
+
+  const paging = pagingLine(result);
+  if (paging) {
+    sections.push(format === 'csv' ? `# ${paging}` : paging);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * A result set with rows keyed by column name, as returned in `structuredContent`
+ */
+export type StructuredResultSet = {
+  columns: ColumnHeader[];
+  rows: Record<string, unknown>[];
+  affectedRows?: number;
+};
+
+/**
+ * Convert a result set into column headers and row objects
+ */
+export function structuredResultSet<TRow extends object>(
+  resultSet: ResultSet<TRow>,
+): StructuredResultSet {
+  const columns = columnHeaders(resultSet.schema);
+  const rows = resultSet.rows.map(row => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column.name] = row[index];
+    });
+    return record;
+  });
+  return resultSet.affectedRows !== undefined && resultSet.affectedRows >= 0
+    ? { columns, rows, affectedRows: resultSet.affectedRows }
+    : { columns, rows };
+}
+
+/**
+ * Structured form of a query or exec result. Non-tabular results such as
+ * write previews are returned unchanged.
+ */
+export function structuredResult(output: FormattableResult | object): Record<string, unknown> {
+  if (!('results' in output)) {
+    return { ...output };
+  }
+  const result = output as FormattableResult;
+  return { ...result, results: (result.results ?? []).map(structuredResultSet) };
+}
+
+/**
+ * Structured form of a metadata result: the rows of every result set under one set of columns
+ */
+export function structuredTable<TRow extends object>(output: {
+  results?: ResultSet<TRow>[];
+}): StructuredResultSet {
+  const resultSets = (output.results ?? []).map(resultSet => structuredResultSet(resultSet));
+  return {
+    columns: resultSets[0]?.columns ?? [],
+    rows: resultSets.flatMap(resultSet => resultSet.rows),
+  };
+}
@@ -1,2 +1,17 @@
 export { queryData } from './queryData';
+export type { PagedQueryResponse } from './queryData';
+export { DEFAULT_MAX_ROWS } from './pagination';
+export type { QueryPageOptions } from './pagination';
 export { execData } from './execData';
+export { BULK_WRITE_MODES, bulkWrite } from './bulkWrite';
+export type { BulkWriteMode, BulkWriteResult, BulkWriteRowResult } from './bulkWrite';
+export {
+  formatResult,
+  OUTPUT_FORMATS,
+  structuredResult,
+  structuredResultSet,
+  structuredTable,
+} from './formatters';
+export type { OutputFormat, StructuredResultSet } from './formatters';
+export { ParameterBindingError } from './parameterBinding';
+export type { ParameterInputs } from './parameterBinding';
@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { CDataParameters, QueryResponse } from '../../client';
+import { getRequestContext } from '../../utils/requestContext';
+import { ClassifiedStatement, classifyStatements, findTopLevelWord } from './sqlClassifier';
+
+const CURSOR_TTL_MS = parseInt(process.env.QUERY_CURSOR_TTL_MS || '600000');
+const MAX_CURSORS = parseInt(process.env.QUERY_MAX_CURSORS || '100');
+const MAX_BUFFERED_ROWS = parseInt(process.env.QUERY_MAX_BUFFERED_ROWS || '10000');
+
+/**
+ * Default page size applied by the `queryData` tool when the caller sets none
+ */
+export const DEFAULT_MAX_ROWS = parseInt(process.env.QUERY_DEFAULT_MAX_ROWS || '1000');
+
+export interface QueryPageOptions {
+  maxRows?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+/**
+ * Everything needed to fetch the next page of a query on a later call
+ */
+export interface QueryCursorState {
+  query: string;
+  defaultSchema?: string;
+  parameters?: CDataParameters;
+  offset: number;
+  maxRows: number;
+  /**
+   * Full upstream response, kept when the query could not be paged with
+   * LIMIT/OFFSET and was sliced in memory instead
+   */
+  buffered?: QueryResponse;
+  /** Whether rows past QUERY_MAX_BUFFERED_ROWS were dropped from `buffered` */
+  truncated?: boolean;
+}
+
+interface StoredCursor {
+  state: QueryCursorState;
+  owner: string;
+  expiresAt: number;
+}
+
+const cursors = new Map<string, StoredCursor>();
+
+/**
+ * Identify who may resume a cursor: the MCP session, or the Connect Cloud user
+ * for sessionless requests
+ */
+function cursorOwner(): string {
+  const context = getRequestContext();
+  return context?.sessionId ?? context?.credentials?.username ?? process.env.CDATA_USERNAME ?? '';
+}
+
+function pruneCursors(now: number) {
+  for (const [id, cursor] of cursors) {
+    if (cursor.expiresAt <= now) {
+      cursors.delete(id);
+    }
+  }
+  // Map iteration follows insertion order, so the first entries are the oldest
+  while (cursors.size >= MAX_CURSORS) {
+    const oldest = cursors.keys().next().value as string;
+    cursors.delete(oldest);
+  }
+}
+
+/**
+ * Store the state for the next page and return an opaque cursor for it
+ */
+export function saveCursor(state: QueryCursorState): string {
+  const now = Date.now();
+  pruneCursors(now);
+  const id = randomUUID();
+  cursors.set(id, { state, owner: cursorOwner(), expiresAt: now + CURSOR_TTL_MS });
+  return id;
+}
+
+/**
+ * Resolve a cursor returned by an earlier call. Cursors are single use.
+ * @throws Error when the cursor is unknown, expired or belongs to another caller
+ */
+export function takeCursor(id: string): QueryCursorState {
+  const cursor = cursors.get(id);
+  cursors.delete(id);
+  if (!cursor || cursor.expiresAt <= Date.now() || cursor.owner !== cursorOwner()) {
+    throw new Error('Invalid or expired cursor. Run the query again without a cursor.');
+  }
+  return cursor.state;
+}
+
+/**
+ * The statement of a query that can be paged by appending LIMIT/OFFSET: a
+ * single SELECT, as `classifyStatements` reads it, without a row limit of its own
+ */
+function pageableStatement(query: string): ClassifiedStatement | undefined {
+  const statements = classifyStatements(query);
+  if (statements.length !== 1) {
+    return undefined;
+  }
+  const [statement] = statements;
+  const { tokens, keywordIndex } = statement;
+  if (statement.kind !== 'select' || statement.keyword !== 'SELECT') {
+    return undefined;
+  }
+  const limited = ['LIMIT', 'OFFSET', 'FETCH'].some(
+    word => findTopLevelWord(tokens, word, keywordIndex + 1) >= 0,
+  );
+  const next = tokens[keywordIndex + 1]?.value.toUpperCase();
+  const top =
+    next === 'TOP' ||
+    (next === 'DISTINCT' && tokens[keywordIndex + 2]?.value.toUpperCase() === 'TOP');
+  return limited || top ? undefined : statement;
+}
+
+/**
+ * Whether the query is a single SELECT that can be paged by appending
+ * LIMIT/OFFSET. Anything else is fetched once and paged in memory.
+ */
+export function isPageableSelect(query: string): boolean {
+  return pageableStatement(query) !== undefined;
+}
+
+/**
+ * Append LIMIT/OFFSET to a pageable SELECT. The statement text ends at its last
+ * token, so a trailing comment or semicolon cannot swallow the clause.
+ */
+export function buildPageQuery(query: string, limit: number, offset: number): string {
+  const sql = pageableStatement(query)?.text ?? query.trim();
+  return offset > 0 ? `${sql}\nLIMIT ${limit} OFFSET ${offset}` : `${sql}\nLIMIT ${limit}`;
+}
+
+/**
+ * Cut a response that is paged in memory to QUERY_MAX_BUFFERED_ROWS rows in
+ * total before it is kept with a cursor. MAX_CURSORS bounds how many cursors
+ * exist; this bounds how much each one holds.
+ * @returns The rows to keep and whether any were dropped
+ */
+export function limitBuffer(response: QueryResponse): {
+  buffered: QueryResponse;
+  truncated: boolean;
+} {
+  let remaining = Math.max(MAX_BUFFERED_ROWS, 0);
+  let truncated = false;
+  const results = (response.results ?? []).map(resultSet => {
+    const rows = (resultSet.rows ?? []).slice(0, remaining);
+    remaining -= rows.length;
+    truncated ||= rows.length < (resultSet.rows ?? []).length;
+    return { ...resultSet, rows };
+  });
+  return { buffered: { ...response, results }, truncated };
+}
+
+/**
+ * Slice every result set of a response to the same row window
+ * @returns The sliced response and whether any result set has rows past the window
+ */
+export function sliceResponse(
+  response: QueryResponse,
+  offset: number,
+  maxRows: number,
+): { page: QueryResponse; hasMore: boolean } {
+  let hasMore = false;
+  const results = (response.results ?? []).map(resultSet => {
+    const rows = resultSet.rows ?? [];
+    if (rows.length > offset + maxRows) {
+      hasMore = true;
+    }
+    return { ...resultSet, rows: rows.slice(offset, offset + maxRows) };
+  });
+  return { page: { ...response, results }, hasMore };
+}
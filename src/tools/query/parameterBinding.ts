@@ -0,0 +1,419 @@
+import { cdataClient, CDataParameter, CDataParameters } from '../../client';
+import { CANONICAL_TYPES, canonicalType, CanonicalType, parameterTypeCode } from '../../schema';
+import { debug } from '../../utils/logger';
+import { loadDeclaredParameters, resolveProcedureName } from './procedureApproval';
+import {
+  ClassifiedStatement,
+  classifyStatements,
+  findTopLevelWord,
+  readQualifiedName,
+  SqlToken,
+  statementSource,
+  targetRange,
+} from './sqlClassifier';
+
+/**
+ * Parameters as supplied to `queryData` and `execData`, keyed by name with or
+ * without the leading @. Each value is one of
+ * - a plain JSON value, whose type is inferred
+ * - `{ type, value }` with a type name such as "date" or "decimal"
+ * - `{ dataType, value, direction }` with a Connect Cloud type code, sent unchanged
+ */
+export type ParameterInputs = Record<string, unknown>;
+
+/**
+ * Error raised when parameters are missing or a value does not match its type
+ */
+export class ParameterBindingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParameterBindingError';
+  }
+}
+
+const INTEGER_MAX = 2147483647;
+
+const INTEGER_TYPES = new Set<CanonicalType>(['tinyint', 'smallint', 'integer', 'bigint']);
+const NUMBER_TYPES = new Set<CanonicalType>(['float', 'double', 'decimal']);
+const COMPARISON_SYMBOLS = new Set(['=', '<', '>', '!']);
+const COMPARISON_WORDS = new Set(['LIKE', 'NOT', 'IN', 'BETWEEN', 'IS']);
+
+/**
+ * Look up the types of parameters whose plain value does not tell them
+ * @param names Parameter names, lower case with the leading @
+ */
+type TypeLookup = (names: string[]) => Promise<Map<string, CanonicalType>>;
+
+function parameterKey(name: string): string {
+  return (name.startsWith('@') ? name : `@${name}`).toLowerCase();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function namedType(typeName: string, parameter: string): CanonicalType {
+  const type = canonicalType({ name: parameter, type: typeName, nullable: true });
+  if (!type) {
+    throw new ParameterBindingError(
+      `Unknown type "${typeName}" for parameter ${parameter}. Use one of: ${CANONICAL_TYPES.join(', ')}`,
+    );
+  }
+  return type;
+}
+
+/**
+ * Check a value against its declared type, converting values that have a
+ * single obvious representation
+ * @param label How the value is named in errors, such as "@id"
+ * @throws ParameterBindingError when the value does not fit the type
+ */
+export function checkParameterValue(label: string, type: CanonicalType, value: unknown): unknown {
+  const invalid = (expected: string) =>
+    new ParameterBindingError(`${label} expects ${expected}, got ${JSON.stringify(value)}`);
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const text = String(value);
+  if (INTEGER_TYPES.has(type)) {
+    if (typeof value === 'boolean' || !/^-?\d+$/.test(text)) throw invalid('an integer');
+  } else if (NUMBER_TYPES.has(type)) {
+    if (typeof value === 'boolean' || text.trim() === '' || !Number.isFinite(Number(text))) {
+      throw invalid('a number');
+    }
+  } else if (type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (!/^(true|false)$/i.test(text)) throw invalid('true or false');
+    return text.toLowerCase() === 'true';
+  } else if (type === 'date') {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) throw invalid('a date as YYYY-MM-DD');
+  } else if (type === 'timestamp' || type === 'timestamptz') {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      throw invalid('an ISO 8601 date and time');
+    }
+  } else if (type === 'uuid') {
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(text)) {
+      throw invalid('a UUID');
+    }
+  } else if (type === 'json') {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  } else if (typeof value === 'object') {
+    throw invalid('a single value');
+  }
+  return value;
+}
+
+/**
+ * The type of a plain value, or undefined for strings and nulls, which fit
+ * many types and are resolved from metadata
+ */
+function inferType(value: unknown): CanonicalType | undefined {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return 'double';
+    return Math.abs(value) <= INTEGER_MAX ? 'integer' : 'bigint';
+  }
+  if (typeof value === 'object' && value !== null) return 'json';
+  return undefined;
+}
+
+/**
+ * Convert supplied parameters into Connect Cloud parameters with type codes
+ */
+async function bindParameters(
+  inputs: ParameterInputs,
+  lookup: TypeLookup,
+): Promise<CDataParameters> {
+  const bound: CDataParameters = {};
+  const pending = new Map<string, { name: string; value: unknown }>();
+
+  for (const [key, input] of Object.entries(inputs)) {
+    const name = key.startsWith('@') ? key : `@${key}`;
+    if (isRecord(input) && typeof input.dataType === 'number') {
+      bound[name] = input as unknown as CDataParameter;
+    } else if (isRecord(input) && (typeof input.type === 'string' || 'dataType' in input)) {
+      const typeName = String(input.type ?? input.dataType);
+      const type = namedType(typeName, name);
+      const parameter: CDataParameter = {
+        dataType: parameterTypeCode(type),
+        value: checkParameterValue(name, type, input.value),
+      };
+      if (typeof input.direction === 'number') parameter.direction = input.direction;
+      bound[name] = parameter;
+    } else {
+      const type = inferType(input);
+      if (type) {
+        bound[name] = {
+          dataType: parameterTypeCode(type),
+          value: checkParameterValue(name, type, input),
+        };
+      } else {
+        pending.set(name.toLowerCase(), { name, value: input });
+      }
+    }
+  }
+
+  if (pending.size > 0) {
+    const types = await lookup([...pending.keys()]);
+    for (const [key, { name, value }] of pending) {
+      let type = types.get(key) ?? 'string';
+      try {
+        checkParameterValue(name, type, value);
+      } catch {
+        // A string that does not fit the column is left for the source to convert
+        type = 'string';
+      }
+      bound[name] = { dataType: parameterTypeCode(type), value };
+    }
+  }
+  return bound;
+}
+
+/**
+ * Parameters a statement references, skipping system variables such as @@ROWCOUNT
+ */
+function referencedParameters(statement: ClassifiedStatement): SqlToken[] {
+  return statement.tokens.filter(
+    (token, index) =>
+      token.type === 'parameter' &&
+      !(
+        statement.tokens[index - 1]?.value === '@' &&
+        statement.tokens[index - 1].end === token.start
+      ),
+  );
+}
+
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return token?.type === 'word' || token?.type === 'identifier';
+}
+
+/**
+ * The column a parameter is compared with, as in `Price > @min`, `@id = Id`,
+ * `Status IN (@a, @b)` or `Created BETWEEN @from AND @to`
+ */
+function comparedColumn(tokens: SqlToken[], index: number): string | undefined {
+  // Walk back over the other values of an IN list or BETWEEN range
+  let i = index - 1;
+  if (
+    tokens[i]?.value.toUpperCase() === 'AND' &&
+    tokens[i - 2]?.value.toUpperCase() === 'BETWEEN'
+  ) {
+    i -= 2;
+  }
+  while (
+    tokens[i]?.value === ',' ||
+    tokens[i]?.type === 'parameter' ||
+    tokens[i]?.type === 'string' ||
+    tokens[i]?.type === 'number'
+  ) {
+    i--;
+  }
+  if (tokens[i]?.value === '(' && tokens[i - 1]?.value.toUpperCase() === 'IN') i--;
+
+  const start = i;
+  while (
+    (tokens[i]?.type === 'symbol' && COMPARISON_SYMBOLS.has(tokens[i].value)) ||
+    (tokens[i]?.type === 'word' && COMPARISON_WORDS.has(tokens[i].value.toUpperCase()))
+  ) {
+    i--;
+  }
+  if (i < start && isName(tokens[i])) {
+    return tokens[i].value;
+  }
+
+  // The column may follow the parameter instead
+  let j = index + 1;
+  while (tokens[j]?.type === 'symbol' && COMPARISON_SYMBOLS.has(tokens[j].value)) j++;
+  if (j > index + 1 && isName(tokens[j]) && tokens[j + 1]?.value !== '(') {
+    // Skip table qualifiers such as `o.Total`
+    while (tokens[j + 1]?.value === '.' && isName(tokens[j + 2])) j += 2;
+    return tokens[j].value;
+  }
+  return undefined;
+}
+
+/**
+ * Columns of `INSERT INTO t (a, b) VALUES (@a, @b)` matched to the parameters
+ * in the same position of each value list
+ */
+function insertedColumns(statement: ClassifiedStatement, tableEnd: number): Map<number, string> {
+  const { tokens } = statement;
+  const columns: string[] = [];
+  const result = new Map<number, string>();
+  if (tokens[tableEnd]?.value !== '(') return result;
+
+  let i = tableEnd + 1;
+  for (; i < tokens.length && tokens[i].value !== ')'; i++) {
+    if (isName(tokens[i])) columns.push(tokens[i].value);
+  }
+  const values = findTopLevelWord(tokens, 'VALUES', i + 1);
+  if (values < 0) return result;
+
+  let depth = 0;
+  let position = 0;
+  for (let j = values + 1; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (token.value === '(') {
+      depth++;
+      if (depth === 1) position = 0;
+    } else if (token.value === ')') {
+      depth--;
+    } else if (depth === 1 && token.value === ',') {
+      position++;
+    } else if (depth === 1 && token.type === 'parameter' && columns[position]) {
+      result.set(j, columns[position]);
+    }
+  }
+  return result;
+}
+
+/**
+ * The table a statement reads from or writes to, as source text
+ */
+function statementTable(
+  statement: ClassifiedStatement,
+): { table: string; end: number } | undefined {
+  let range = targetRange(statement);
+  if (!range && statement.kind === 'select') {
+    const from = findTopLevelWord(statement.tokens, 'FROM', statement.keywordIndex + 1);
+    if (from >= 0) {
+      const { end } = readQualifiedName(statement.tokens, from + 1);
+      if (end > from + 1) range = { start: from + 1, end };
+    }
+  }
+  return range && statement.kind !== 'exec'
+    ? { table: statementSource(statement, range.start, range.end), end: range.end }
+    : undefined;
+}
+
+/**
+ * Types of the columns that parameters are compared with or inserted into,
+ * read with a schema-only query of each table
+ */
+async function columnTypes(
+  statements: ClassifiedStatement[],
+  defaultSchema: string | undefined,
+  names: string[],
+): Promise<Map<string, CanonicalType>> {
+  const wanted = new Set(names);
+  const columnsByTable = new Map<string, Map<string, string>>();
+  for (const statement of statements) {
+    const target = statementTable(statement);
+    if (!target) continue;
+    const inserted = insertedColumns(statement, target.end);
+    statement.tokens.forEach((token, index) => {
+      const key = token.value.toLowerCase();
+      if (token.type !== 'parameter' || !wanted.has(key)) return;
+      const column = inserted.get(index) ?? comparedColumn(statement.tokens, index);
+      if (!column) return;
+      const columns = columnsByTable.get(target.table) ?? new Map<string, string>();
+      columns.set(key, column);
+      columnsByTable.set(target.table, columns);
+    });
+  }
+
+  const types = new Map<string, CanonicalType>();
+  for (const [table, columns] of columnsByTable) {
+    try {
+      const response = await cdataClient.query({
+        query: `SELECT * FROM ${table}`,
+        defaultSchema,
+        schemaOnly: true,
+      });
+      const schema = response.results?.[0]?.schema ?? [];
+      for (const [key, column] of columns) {
+        const info = schema.find(
+          candidate => candidate.columnName.toLowerCase() === column.toLowerCase(),
+        );
+        const type =
+          info &&
+          canonicalType({
+            name: info.columnName,
+            type: info.dataTypeName,
+            dataType: info.dataType,
+            nullable: true,
+          });
+        if (type && !types.has(key)) types.set(key, type);
+      }
+    } catch (err: any) {
+      // The values are sent as strings, which most sources convert
+      debug(`Could not read column types of ${table}: ${err.message}`);
+    }
+  }
+  return types;
+}
+
+/**
+ * Check that every parameter a query references is supplied and convert the
+ * parameters into Connect Cloud parameters. String and null values take the
+ * type of the column they are compared with or inserted into when it can be
+ * read with a schema-only query.
+ * @param query One or more statements separated by semicolons
+ * @param defaultSchema Schema used for unqualified table names
+ * @param inputs The supplied parameters
+ * @throws ParameterBindingError when a parameter is missing or has an invalid value
+ */
+export async function bindQueryParameters(
+  query: string,
+  defaultSchema: string | undefined,
+  inputs: ParameterInputs | undefined,
+): Promise<CDataParameters | undefined> {
+  const statements = classifyStatements(query);
+  const supplied = new Set(Object.keys(inputs ?? {}).map(parameterKey));
+  const missing = new Set<string>();
+  for (const statement of statements) {
+    for (const token of referencedParameters(statement)) {
+      if (!supplied.has(token.value.toLowerCase())) missing.add(token.value);
+    }
+  }
+  if (missing.size > 0) {
+    throw new ParameterBindingError(
+      `The query references parameters that were not supplied: ${[...missing].join(', ')}`,
+    );
+  }
+
+  if (!inputs) {
+    return undefined;
+  }
+  return bindParameters(inputs, names => columnTypes(statements, defaultSchema, names));
+}
+
+/**
+ * Convert procedure parameters into Connect Cloud parameters. String and null
+ * values take the type the procedure declares for them.
+ * @param procedure The procedure name as passed to `execData`
+ * @param defaultSchema Schema used when the procedure name is not qualified
+ * @param inputs The supplied parameters
+ * @throws ParameterBindingError when a value does not match its type
+ */
+export async function bindProcedureParameters(
+  procedure: string,
+  defaultSchema: string | undefined,
+  inputs: ParameterInputs | undefined,
+): Promise<CDataParameters | undefined> {
+  if (!inputs) {
+    return undefined;
+  }
+  return bindParameters(inputs, async () => {
+    const types = new Map<string, CanonicalType>();
+    try {
+      const { catalogName, schemaName, procedureName } = resolveProcedureName(
+        procedure,
+        defaultSchema,
+      );
+      for (const row of await loadDeclaredParameters(catalogName, schemaName, procedureName)) {
+        const type = canonicalType({
+          name: row.COLUMN_NAME,
+          type: row.TYPE_NAME,
+          dataType: row.DATA_TYPE,
+          nullable: true,
+        });
+        if (type) types.set(parameterKey(row.COLUMN_NAME), type);
+      }
+    } catch (err: any) {
+      debug(`Could not read parameter types of procedure ${procedure}: ${err.message}`);
+    }
+    return types;
+  });
+}
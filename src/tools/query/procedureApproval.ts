@@ -0,0 +1,255 @@
+import { cdataClient, CDataParameters, ProcedureParameterRow, toRecords } from '../../client';
+import { getRequestContext } from '../../utils/requestContext';
+import { warn } from '../../utils/logger';
+
+/**
+ * What to do with `execData` calls from clients that cannot show an elicitation prompt
+ * - allow: run the procedure without approval, still subject to CONFIRM_WRITES
+ * - deny: reject the call
+ * - token: return a preview with a confirmation token, as with CONFIRM_WRITES
+ */
+export type ApprovalFallback = 'allow' | 'deny' | 'token';
+
+/**
+ * When enabled, every `execData` call must be approved by the human before it runs
+ */
+export const EXEC_APPROVAL = process.env.EXEC_APPROVAL === 'true';
+
+export const EXEC_APPROVAL_FALLBACK: ApprovalFallback = ['allow', 'deny', 'token'].includes(
+  process.env.EXEC_APPROVAL_FALLBACK || '',
+)
+  ? (process.env.EXEC_APPROVAL_FALLBACK as ApprovalFallback)
+  : 'token';
+
+const EXEC_APPROVAL_TIMEOUT_MS = parseInt(process.env.EXEC_APPROVAL_TIMEOUT_MS || '300000');
+
+/**
+ * Error raised when a procedure call is declined or cannot be approved
+ */
+export class ProcedureApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcedureApprovalError';
+  }
+}
+
+export interface ResolvedParameter {
+  name: string;
+  value?: unknown;
+  typeName?: string;
+  direction?: number;
+  /** Whether the parameter is declared by the procedure */
+  declared: boolean;
+}
+
+/**
+ * A procedure call with its parameters checked against the procedure's metadata
+ */
+export interface ResolvedProcedureCall {
+  procedure: string;
+  catalogName?: string;
+  schemaName?: string;
+  procedureName: string;
+  parameters: ResolvedParameter[];
+  /** Required input parameters that were not supplied */
+  missing: string[];
+  /** Supplied parameters the procedure does not declare */
+  unknown: string[];
+  /** Set when the procedure's parameters could not be looked up */
+  verifyError?: string;
+}
+
+// Parameter directions reported in COLUMN_TYPE
+const DIRECTION_OUT = 4;
+const DIRECTION_RETURN = 5;
+
+function splitName(name: string): string[] {
+  return name
+    .split('.')
+    .map(part => part.trim().replace(/^["`[]|["`\]]$/g, ''))
+    .filter(Boolean);
+}
+
+function parameterKey(name: string): string {
+  return name.replace(/^@/, '').toLowerCase();
+}
+
+function isNullable(row: ProcedureParameterRow): boolean {
+  return row.IS_NULLABLE === true || String(row.IS_NULLABLE).toUpperCase() === 'YES';
+}
+
+/**
+ * Split a procedure name as passed to `execData` into its catalog, schema and name
+ * @param procedure The procedure name, optionally qualified
+ * @param defaultSchema Schema used when the procedure name is not qualified
+ */
+export function resolveProcedureName(
+  procedure: string,
+  defaultSchema?: string,
+): { catalogName?: string; schemaName?: string; procedureName: string } {
+  let parts = splitName(procedure);
+  if (parts.length < 3 && defaultSchema) {
+    parts = [...splitName(defaultSchema), ...parts].slice(-3);
+  }
+  return {
+    procedureName: parts[parts.length - 1],
+    schemaName: parts.length >= 2 ? parts[parts.length - 2] : undefined,
+    catalogName: parts.length >= 3 ? parts[parts.length - 3] : undefined,
+  };
+}
+
+/**
+ * Parameters a procedure declares, as reported by `getProcedureParameters`
+ */
+export async function loadDeclaredParameters(
+  catalogName: string | undefined,
+  schemaName: string | undefined,
+  procedureName: string,
+): Promise<ProcedureParameterRow[]> {
+  return toRecords(
+    await cdataClient.getProcedureParameters(catalogName, schemaName, procedureName),
+  ).filter(row => row.PROCEDURE_NAME?.toLowerCase() === procedureName.toLowerCase());
+}
+
+/**
+ * Resolve the procedure's catalog, schema and declared parameters, and compare
+ * them with the supplied parameters
+ * @param procedure The procedure name as passed to `execData`
+ * @param defaultSchema Schema used when the procedure name is not qualified
+ * @param parameters The supplied parameters
+ */
+export async function resolveProcedureCall(
+  procedure: string,
+  defaultSchema?: string,
+  parameters?: CDataParameters,
+): Promise<ResolvedProcedureCall> {
+  const { catalogName, schemaName, procedureName } = resolveProcedureName(procedure, defaultSchema);
+
+  const supplied = Object.entries(parameters ?? {});
+  const call: ResolvedProcedureCall = {
+    procedure,
+    catalogName,
+    schemaName,
+    procedureName,
+    parameters: supplied.map(([name, parameter]) => ({
+      name,
+      value: parameter?.value,
+      direction: parameter?.direction,
+      declared: false,
+    })),
+    missing: [],
+    unknown: [],
+  };
+
+  try {
+    const declared = await loadDeclaredParameters(catalogName, schemaName, procedureName);
+    const declaredByKey = new Map(declared.map(row => [parameterKey(row.COLUMN_NAME), row]));
+
+    for (const parameter of call.parameters) {
+      const row = declaredByKey.get(parameterKey(parameter.name));
+      if (row) {
+        parameter.declared = true;
+        parameter.typeName = row.TYPE_NAME;
+        parameter.direction = parameter.direction ?? row.COLUMN_TYPE;
+      } else {
+        call.unknown.push(parameter.name);
+      }
+    }
+
+    const suppliedKeys = new Set(supplied.map(([name]) => parameterKey(name)));
+    call.missing = declared
+      .filter(
+        row =>
+          row.COLUMN_TYPE !== DIRECTION_OUT &&
+          row.COLUMN_TYPE !== DIRECTION_RETURN &&
+          !isNullable(row) &&
+          !suppliedKeys.has(parameterKey(row.COLUMN_NAME)),
+      )
+      .map(row => `@${row.COLUMN_NAME.replace(/^@/, '')}`);
+  } catch (err: any) {
+    warn(`Could not verify parameters of procedure ${procedure}: ${err.message}`);
+    call.verifyError = err.message;
+  }
+
+  return call;
+}
+
+/**
+ * Render a resolved call as the message shown in the approval prompt
+ */
+export function describeProcedureCall(call: ResolvedProcedureCall): string {
+  const qualified = [call.catalogName, call.schemaName, call.procedureName]
+    .filter(Boolean)
+    .join('.');
+  const lines = [`Run stored procedure ${qualified}?`];
+
+  if (call.parameters.length === 0) {
+    lines.push('', 'No parameters.');
+  } else {
+    lines.push('', 'Parameters:');
+    for (const parameter of call.parameters) {
+      const type = parameter.typeName ? ` (${parameter.typeName})` : '';
+      lines.push(`  ${parameter.name}${type} = ${JSON.stringify(parameter.value ?? null)}`);
+    }
+  }
+
+  if (call.verifyError) {
+    lines.push('', `Warning: parameters could not be verified: ${call.verifyError}`);
+  }
+  if (call.unknown.length > 0) {
+    lines.push('', `Warning: not declared by the procedure: ${call.unknown.join(', ')}`);
+  }
+  if (call.missing.length > 0) {
+    lines.push('', `Warning: required parameters not supplied: ${call.missing.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Ask the human to approve a procedure call
+ * @returns 'approved' when the human approved the call, 'allowed' when the client
+ * cannot be prompted and the fallback policy lets the call through, or 'token'
+ * when the fallback policy asks for a confirmation token instead
+ * @throws ProcedureApprovalError when the call is declined or denied by policy
+ */
+export async function approveProcedureCall(
+  procedure: string,
+  defaultSchema?: string,
+  parameters?: CDataParameters,
+): Promise<'approved' | 'allowed' | 'token'> {
+  const elicit = getRequestContext()?.elicit;
+  if (!elicit) {
+    if (EXEC_APPROVAL_FALLBACK === 'deny') {
+      throw new ProcedureApprovalError(
+        'Procedure execution requires approval, but this client does not support elicitation prompts.',
+      );
+    }
+    return EXEC_APPROVAL_FALLBACK === 'allow' ? 'allowed' : 'token';
+  }
+
+  const call = await resolveProcedureCall(procedure, defaultSchema, parameters);
+  const result = await elicit(
+    {
+      message: describeProcedureCall(call),
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          approve: {
+            type: 'boolean',
+            title: 'Approve',
+            description: `Run ${call.procedureName} with the parameters shown`,
+          },
+        },
+        required: ['approve'],
+      },
+    },
+    EXEC_APPROVAL_TIMEOUT_MS,
+  );
+
+  if (result.action !== 'accept' || result.content?.approve !== true) {
+    throw new ProcedureApprovalError(
+      `Execution of procedure ${procedure} was not approved by the user (${result.action}).`,
+    );
+  }
+  return 'approved';
+}
@@ -1,33 +1,139 @@
-import { CDATA_API_URL, log, error } from '../config';
+import { cdataClient, CDataParameters, QueryResponse } from '../../client';
+import { withTimeout } from '../../utils/abort';
+import { startProgress } from '../../utils/progress';
+import { log, error } from '../config';
+import { toolError, toolResult, ToolResponse } from '../response';
+import {
+  buildPageQuery,
+  DEFAULT_MAX_ROWS,
+  isPageableSelect,
+  limitBuffer,
+  QueryCursorState,
+  QueryPageOptions,
+  saveCursor,
+  sliceResponse,
+  takeCursor,
+} from './pagination';
+import { assertQueryAllowed } from './readOnly';
+import { classifyStatements } from './sqlClassifier';
+import { CONFIRM_WRITES, consumeConfirmation, previewQuery, WritePreview } from './confirmation';
+import { bindQueryParameters, ParameterInputs } from './parameterBinding';
+
+/**
+ * How long a query may run upstream before it is abandoned; 0 disables the limit
+ */
+export const QUERY_TIMEOUT_MS = parseInt(process.env.QUERY_TIMEOUT_MS || '120000');
+
+/**
+ * Query response with the paging fields added when a page was requested
+ */
+export type PagedQueryResponse = QueryResponse & {
+  offset?: number;
+  hasMore?: boolean;
+  nextCursor?: string;
+  /** Set when the query was paged in memory and rows past QUERY_MAX_BUFFERED_ROWS were dropped */
+  truncated?: boolean;
+};
+
+/**
+ * Fetch one page of a query. Single SELECT statements are paged upstream with
+ * LIMIT/OFFSET; anything else is fetched once and kept with the cursor, up to
+ * QUERY_MAX_BUFFERED_ROWS rows.
+ */
+async function fetchPage(state: QueryCursorState): Promise<PagedQueryResponse> {
+  const { query, defaultSchema, parameters, offset, maxRows } = state;
+  let { buffered, truncated } = state;
+  let sliced: { page: QueryResponse; hasMore: boolean };
+
+  if (buffered) {
+    sliced = sliceResponse(buffered, offset, maxRows);
+  } else if (isPageableSelect(query)) {
+    // Ask for one extra row to learn whether another page exists
+    const data = await cdataClient.query({
+      query: buildPageQuery(query, maxRows + 1, offset),
+      defaultSchema,
+      parameters,
+    });
+    sliced = sliceResponse(data, 0, maxRows);
+  } else {
+    const response = await cdataClient.query({ query, defaultSchema, parameters });
+    sliced = sliceResponse(response, offset, maxRows);
+    ({ buffered, truncated } = limitBuffer(response));
+  }
+
+  const nextCursor = sliced.hasMore
+    ? saveCursor({ ...state, offset: offset + maxRows, buffered, truncated })
+    : undefined;
+  return {
+    ...sliced.page,
+    offset,
+    hasMore: sliced.hasMore,
+    nextCursor,
+    ...(truncated && { truncated }),
+  };
+}
 
 async function queryData(
   query: string,
   defaultSchema?: string,
   schemaOnly?: boolean,
-  parameters?: Record<string, { dataType: number; value: any }>,
-) {
+  inputs?: ParameterInputs,
+  page?: QueryPageOptions,
+  confirmationToken?: string,
+): Promise<ToolResponse<PagedQueryResponse | WritePreview>> {
   try {
-    const response = await fetch(`${CDATA_API_URL}/query`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization:
-          'Basic ' +
-          Buffer.from(`${process.env.CDATA_USERNAME}:${process.env.CDATA_PAT}`).toString('base64'),
-      },
-      body: JSON.stringify({
-        query,
-        defaultSchema,
-        schemaOnly,
-        parameters,
-      }),
-    });
+    let parameters: CDataParameters | undefined;
+    // Cursors only exist for queries that already passed these checks
+    if (!page?.cursor) {
+      if (!query.trim()) {
+        throw new Error('A query is required unless a cursor is supplied');
+      }
+      assertQueryAllowed(query);
+      parameters = await bindQueryParameters(query, defaultSchema, inputs);
 
-    if (!response.ok) {
-      throw new Error(`Error: ${response.statusText}`);
+      if (CONFIRM_WRITES) {
+        const statements = classifyStatements(query);
+        if (statements.some(statement => !statement.readOnly)) {
+          const request = { tool: 'queryData' as const, query, defaultSchema, parameters };
+          if (!confirmationToken) {
+            return toolResult(await previewQuery(statements, request));
+          }
+          consumeConfirmation(confirmationToken, request);
+        }
+      }
     }
 
-    const data = await response.json();
+    const progress = startProgress(1, 'Running query');
+    let data: PagedQueryResponse;
+    // A cursor always continues its query, even when schemaOnly is repeated
+    if (page && (page.cursor || !schemaOnly)) {
+      let state: QueryCursorState;
+      if (page.cursor) {
+        state = takeCursor(page.cursor);
+        state.maxRows = page.maxRows ?? state.maxRows;
+        query = state.query;
+        defaultSchema = state.defaultSchema;
+      } else {
+        state = {
+          query,
+          defaultSchema,
+          parameters,
+          offset: page.offset ?? 0,
+          maxRows: page.maxRows ?? DEFAULT_MAX_ROWS,
+        };
+      }
+      data = await withTimeout(QUERY_TIMEOUT_MS, 'Query', () => fetchPage(state));
+    } else {
+      data = await withTimeout(QUERY_TIMEOUT_MS, 'Query', () =>
+        cdataClient.query({ query, defaultSchema, schemaOnly, parameters }),
+      );
+    }
+    const rowCount = (data.results ?? []).reduce(
+      (sum, result) => sum + (result.rows?.length ?? 0),
+      0,
+    );
+    progress.advance(`Fetched ${rowCount} rows`);
+
     log({
       message: 'Query executed successfully',
       timestamp: new Date().toISOString(),
@@ -35,14 +141,12 @@ async function queryData(
         query: query.substring(0, 50) + (query.length > 50 ? '...' : ''),
         defaultSchema,
         schemaOnly,
+        offset: data.offset,
+        hasMore: data.hasMore,
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      result: data,
-      id: global.currentRequestId || null,
-    };
+    return toolResult(data);
   } catch (err: any) {
     error({
       level: 'error',
@@ -60,18 +164,7 @@ async function queryData(
       },
     });
 
-    return {
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: err.message || 'Unknown error during query execution',
-        data: {
-          name: err.name,
-          stack: err.stack,
-        },
-      },
-      id: global.currentRequestId || null,
-    };
+    return toolError(err, 'Unknown error during query execution');
   }
 }
 
@@ -0,0 +1,102 @@
+import { classifyStatements, readQualifiedName } from './sqlClassifier';
+
+/**
+ * When enabled, only SELECT statements may reach Connect Cloud
+ */
+export const READ_ONLY = process.env.READ_ONLY === 'true';
+
+/**
+ * Procedures that may still run in read-only mode, through `execData` or an
+ * EXEC statement. Entries may be bare names or catalog/schema-qualified names.
+ * When empty, procedures are blocked completely.
+ */
+const ALLOWED_PROCEDURES = (process.env.READ_ONLY_ALLOWED_PROCEDURES || '')
+  .split(',')
+  .map(name => normalizeName(name))
+  .filter(Boolean);
+
+/**
+ * Error raised when read-only mode rejects a statement or procedure
+ */
+export class ReadOnlyViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadOnlyViolationError';
+  }
+}
+
+function normalizeName(name: string): string {
+  return name
+    .trim()
+    .replace(/["`[\]]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Whether a procedure is on the read-only allow list. A bare entry matches
+ * the procedure in any catalog and schema.
+ */
+function isProcedureAllowed(procedure: string): boolean {
+  const name = normalizeName(procedure);
+  const bareName = name.split('.').pop();
+  return ALLOWED_PROCEDURES.some(entry =>
+    entry.includes('.') ? entry === name : entry === bareName,
+  );
+}
+
+/**
+ * Reject the batch if any statement would modify data while read-only mode is on
+ * @param query One or more statements separated by semicolons
+ * @throws ReadOnlyViolationError naming the first offending statement
+ */
+export function assertQueryAllowed(query: string): void {
+  if (!READ_ONLY) {
+    return;
+  }
+
+  const statements = classifyStatements(query);
+  statements.forEach((statement, index) => {
+    if (statement.readOnly) {
+      return;
+    }
+    const position =
+      statements.length > 1 ? ` (statement ${index + 1} of ${statements.length})` : '';
+    if (statement.kind === 'exec') {
+      const { name } = readQualifiedName(statement.tokens, statement.keywordIndex + 1);
+      if (name && isProcedureAllowed(name)) {
+        return;
+      }
+      throw new ReadOnlyViolationError(
+        `Read-only mode: procedure '${name || 'unknown'}'${position} is not on the allowed procedure list.`,
+      );
+    }
+    throw new ReadOnlyViolationError(
+      `Read-only mode: ${statement.keyword || 'unrecognized'} statement${position} is not allowed. Only SELECT statements can run while the server is read-only.`,
+    );
+  });
+}
+
+/**
+ * Whether a procedure may run: always outside read-only mode, and only when
+ * allow-listed inside it
+ * @param procedure The procedure name, bare or catalog/schema-qualified
+ */
+export function procedureAllowed(procedure: string): boolean {
+  return !READ_ONLY || isProcedureAllowed(procedure);
+}
+
+/**
+ * Reject a procedure call while read-only mode is on, unless it is allow-listed
+ * @param procedure The procedure name as passed to `execData`
+ * @throws ReadOnlyViolationError when the procedure may not run
+ */
+export function assertProcedureAllowed(procedure: string): void {
+  if (procedureAllowed(procedure)) {
+    return;
+  }
+  throw new ReadOnlyViolationError(
+    ALLOWED_PROCEDURES.length === 0
+      ? 'Read-only mode: execData is disabled.'
+      : `Read-only mode: procedure '${procedure}' is not on the allowed procedure list.`,
+  );
+}
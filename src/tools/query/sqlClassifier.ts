@@ -0,0 +1,324 @@
+export type SqlTokenType =
+  | 'word'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'parameter'
+  | 'symbol'
+  | 'semicolon';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Token text; quotes are removed from strings and quoted identifiers */
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character in the source */
+  end: number;
+}
+
+export type StatementKind =
+  | 'select'
+  | 'selectInto'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'upsert'
+  | 'merge'
+  | 'ddl'
+  | 'exec'
+  | 'other';
+
+export interface ClassifiedStatement {
+  kind: StatementKind;
+  /** Leading keyword of the statement (after any CTEs), upper-cased */
+  keyword: string;
+  /** Index of the leading keyword in `tokens`, or -1 when there is none */
+  keywordIndex: number;
+  readOnly: boolean;
+  /** Source text of the statement without the trailing semicolon */
+  text: string;
+  tokens: SqlToken[];
+}
+
+const DDL_KEYWORDS = new Set(['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME', 'GRANT', 'REVOKE']);
+
+const STATEMENT_KINDS: Record<string, StatementKind> = {
+  SELECT: 'select',
+  GETDELETED: 'select',
+  INSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  UPSERT: 'upsert',
+  REPLACE: 'upsert',
+  MERGE: 'merge',
+  EXEC: 'exec',
+  EXECUTE: 'exec',
+  CALL: 'exec',
+};
+
+const QUOTE_CLOSERS: Record<string, string> = { '"': '"', '`': '`', '[': ']' };
+
+/**
+ * Split SQL into tokens. Comments and whitespace are dropped; string literals
+ * and quoted identifiers are kept whole so semicolons and keywords inside them
+ * are never mistaken for statement boundaries.
+ */
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline < 0 ? sql.length : newline + 1;
+    } else if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close < 0 ? sql.length : close + 2;
+    } else if (ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === "'" && sql[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (sql[i] === "'") {
+          i++;
+          break;
+        } else {
+          value += sql[i++];
+        }
+      }
+      tokens.push({ type: 'string', value, start, end: i });
+    } else if (QUOTE_CLOSERS[ch]) {
+      const start = i;
+      const close = sql.indexOf(QUOTE_CLOSERS[ch], i + 1);
+      i = close < 0 ? sql.length : close + 1;
+      tokens.push({
+        type: 'identifier',
+        value: sql.slice(start + 1, close < 0 ? i : close),
+        start,
+        end: i,
+      });
+    } else if (ch === ';') {
+      tokens.push({ type: 'semicolon', value: ';', start: i, end: i + 1 });
+      i++;
+    } else if (ch === '@' && /[A-Za-z0-9_]/.test(next ?? '')) {
+      const match = /^@[A-Za-z0-9_]+/.exec(sql.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'parameter', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?/.exec(sql.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'number', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'word', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: 'symbol', value: ch, start: i, end: i + 1 });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Group tokens into statements at top-level semicolons. Empty statements are dropped.
+ */
+export function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  for (const token of tokens) {
+    if (token.type === 'semicolon') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+function isWord(token: SqlToken | undefined, ...values: string[]): boolean {
+  return token?.type === 'word' && values.includes(token.value.toUpperCase());
+}
+
+/**
+ * Read a dotted, possibly quoted name such as `Salesforce1.Salesforce.[Account]`
+ * @param tokens The statement's tokens
+ * @param start Index of the first name part
+ * @returns The name with quotes removed, and the index just past it
+ */
+export function readQualifiedName(
+  tokens: SqlToken[],
+  start: number,
+): { name: string; end: number } {
+  const parts: string[] = [];
+  let i = start;
+  while (tokens[i] && (tokens[i].type === 'word' || tokens[i].type === 'identifier')) {
+    parts.push(tokens[i].value);
+    i++;
+    if (tokens[i]?.value !== '.') break;
+    i++;
+  }
+  return { name: parts.join('.'), end: i };
+}
+
+/**
+ * Find a keyword outside any parentheses
+ * @returns Index of the keyword token, or -1 when it does not occur
+ */
+export function findTopLevelWord(tokens: SqlToken[], word: string, from = 0): number {
+  let depth = 0;
+  for (let i = from; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol' && token.value === '(') depth++;
+    else if (token.type === 'symbol' && token.value === ')') depth--;
+    else if (depth === 0 && isWord(token, word)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find the keyword that decides what a statement does, skipping leading
+ * parentheses and any WITH clause of common table expressions
+ * @returns Index of the keyword token, or -1 when there is none
+ */
+function leadingKeywordIndex(tokens: SqlToken[]): number {
+  let index = 0;
+  while (tokens[index]?.type === 'symbol' && tokens[index].value === '(') {
+    index++;
+  }
+  if (!isWord(tokens[index], 'WITH')) {
+    return tokens[index]?.type === 'word' ? index : -1;
+  }
+
+  // The main statement is the first top-level verb after the CTE definitions
+  let depth = 0;
+  for (let i = index + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol' && token.value === '(') depth++;
+    else if (token.type === 'symbol' && token.value === ')') depth--;
+    else if (depth === 0 && token.type === 'word' && STATEMENT_KINDS[token.value.toUpperCase()]) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Classify a single statement's tokens
+ * @param tokens The statement's tokens
+ * @param sql The source the tokens were read from
+ */
+export function classifyStatement(tokens: SqlToken[], sql: string): ClassifiedStatement {
+  const text = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  const keywordIndex = leadingKeywordIndex(tokens);
+  const keyword = keywordIndex < 0 ? '' : tokens[keywordIndex].value.toUpperCase();
+
+  let kind: StatementKind =
+    STATEMENT_KINDS[keyword] ?? (DDL_KEYWORDS.has(keyword) ? 'ddl' : 'other');
+  if (kind === 'select' && findTopLevelWord(tokens, 'INTO', keywordIndex + 1) >= 0) {
+    kind = 'selectInto';
+  }
+
+  return { kind, keyword, keywordIndex, readOnly: kind === 'select', text, tokens };
+}
+
+/**
+ * Tokenize a batch of SQL and classify every statement in it
+ * @param sql One or more statements separated by semicolons
+ */
+export function classifyStatements(sql: string): ClassifiedStatement[] {
+  return splitStatements(tokenize(sql)).map(tokens => classifyStatement(tokens, sql));
+}
+
+const DDL_OBJECT_WORDS = new Set([
+  'TABLE',
+  'VIEW',
+  'INDEX',
+  'UNIQUE',
+  'TEMPORARY',
+  'TEMP',
+  'IF',
+  'NOT',
+  'EXISTS',
+  'OR',
+  'REPLACE',
+]);
+
+/**
+ * Locate the name of the table, or procedure for EXEC statements, that a statement writes to
+ * @returns Token index range of the qualified name, or undefined for statements without a single target
+ */
+export function targetRange(
+  statement: ClassifiedStatement,
+): { start: number; end: number } | undefined {
+  const { tokens, kind, keywordIndex } = statement;
+  let index = keywordIndex + 1;
+
+  switch (kind) {
+    case 'insert':
+    case 'upsert':
+    case 'merge':
+      if (isWord(tokens[index], 'INTO')) index++;
+      break;
+    case 'delete':
+      if (isWord(tokens[index], 'FROM')) index++;
+      break;
+    case 'selectInto':
+      index = findTopLevelWord(tokens, 'INTO', keywordIndex + 1) + 1;
+      break;
+    case 'ddl':
+      while (
+        tokens[index]?.type === 'word' &&
+        DDL_OBJECT_WORDS.has(tokens[index].value.toUpperCase())
+      ) {
+        index++;
+      }
+      break;
+    case 'update':
+    case 'exec':
+      break;
+    default:
+      return undefined;
+  }
+
+  const { end } = readQualifiedName(tokens, index);
+  return end > index ? { start: index, end } : undefined;
+}
+
+/**
+ * Name of the table, or procedure for EXEC statements, that a statement writes to
+ */
+export function targetName(statement: ClassifiedStatement): string | undefined {
+  const range = targetRange(statement);
+  return range ? readQualifiedName(statement.tokens, range.start).name : undefined;
+}
+
+/**
+ * Source text of a token range within a statement, quotes included
+ * @param statement The classified statement
+ * @param start Index of the first token
+ * @param end Index just past the last token
+ */
+export function statementSource(
+  statement: ClassifiedStatement,
+  start: number,
+  end: number,
+): string {
+  const base = statement.tokens[0].start;
+  return statement.text.slice(
+    statement.tokens[start].start - base,
+    statement.tokens[end - 1].end - base,
+  );
+}
@@ -0,0 +1,47 @@
+import { currentRequestId } from '../utils/requestContext';
+
+/**
+ * JSON-RPC envelope returned by every tool function
+ */
+export interface ToolResponse<T> {
+  jsonrpc: '2.0';
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: Record<string, unknown>;
+  };
+  id: string | number | null;
+}
+
+/**
+ * Wrap a successful result in a JSON-RPC envelope
+ */
+export function toolResult<T>(result: T): ToolResponse<T> {
+  return {
+    jsonrpc: '2.0',
+    result,
+    id: currentRequestId(),
+  };
+}
+
+/**
+ * Wrap an error in a JSON-RPC envelope
+ * @param err The error that was caught
+ * @param fallbackMessage Message used when the error carries none
+ */
+export function toolError<T = never>(err: any, fallbackMessage: string): ToolResponse<T> {
+  return {
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: err?.message || fallbackMessage,
+      data: {
+        name: err?.name,
+        status: err?.status,
+        stack: err?.stack,
+      },
+    },
+    id: currentRequestId(),
+  };
+}
@@ -1,8 +1,10 @@
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import express from 'express';
 import { randomUUID } from 'crypto';
-import { log, error, info, debug } from '../utils/logger';
+import { log, error, info } from '../utils/logger';
+import { credentialsFromAuthorization, runWithRequestContext } from '../utils/requestContext';
 import { server } from '../server/mcpServer';
+import { closeSession, openSession } from '../server/handlerContext';
 import { createDirectHandler } from '../http/routes';
 
 /**
@@ -33,15 +35,6 @@ export async function setupHttpTransport(port: number, host: string) {
     next();
   });
 
-  // Add middleware to extract and store the request ID
-  app.use((req: any, res: any, next: any) => {
-    if (req.body && req.body.id) {
-      global.currentRequestId = req.body.id;
-      debug(`Set currentRequestId to ${global.currentRequestId} for request`);
-    }
-    next();
-  });
-
   // Serve manifest file for MCP discovery
   app.get('/.well-known/mc/manifest.json', (req, res) => {
     res.json({
@@ -64,12 +57,6 @@ export async function setupHttpTransport(port: number, host: string) {
     try {
       log(`Received request to /mcp: ${JSON.stringify(req.body)}`);
 
-      // Store request ID for downstream handlers
-      if (req.body && req.body.id) {
-        global.currentRequestId = req.body.id;
-        log(`Set current request ID to: ${global.currentRequestId}`);
-      }
-
       // Check for existing session ID
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
       log(`Session ID from request: ${sessionId}`);
@@ -93,14 +80,16 @@ export async function setupHttpTransport(port: number, host: string) {
             log(`Session initialized with ID: ${newSessionId}`);
             // Store the transport by session ID
             transports[newSessionId] = transport;
+            openSession(newSessionId, req.body?.params?.capabilities);
           },
         });
 
-        // Clean up transport when closed
+        // Clean up transport when closed, abandoning the session's in-flight requests
         transport.onclose = () => {
           if (transport.sessionId) {
             log(`Cleaning up session ${transport.sessionId}`);
             delete transports[transport.sessionId];
+            closeSession(transport.sessionId);
           }
         };
 
@@ -135,9 +124,17 @@ export async function setupHttpTransport(port: number, host: string) {
         return;
       }
 
-      // Handle the request
+      // Handle the request. Completion callbacks get no request details from the
+      // SDK, so the caller's credentials are provided through the request context.
       log(`Handling request with transport`);
-      await transport.handleRequest(req, res, req.body);
+      await runWithRequestContext(
+        {
+          requestId: req.body?.id ?? null,
+          sessionId: transport.sessionId,
+          credentials: credentialsFromAuthorization(req.headers.authorization),
+        },
+        () => transport.handleRequest(req, res, req.body),
+      );
       log(`Request handled successfully`);
     } catch (err: any) {
       error(`Error in /mcp endpoint: ${err}`);
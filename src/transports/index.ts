@@ -2,6 +2,8 @@ import { setupStdioTransport } from './stdioTransport';
 import { setupHttpTransport } from './httpTransport';
 import { info } from '../utils/logger';
 import { registerTools } from '../server/toolRegistry';
+import { registerResources } from '../server/resourceRegistry';
+import { registerPrompts } from '../server/promptRegistry';
 import { server } from '../server/mcpServer';
 
 /**
@@ -11,6 +13,12 @@ export async function setupTransport() {
   // Register all tools with the MCP server
   registerTools(server);
 
+  // Expose the catalog/schema/table hierarchy as resources
+  registerResources(server);
+
+  // Register the built-in workflow prompts
+  registerPrompts(server);
+
   // Choose and set up the appropriate transport based on environment configuration
   const port = parseInt(process.env.PORT || '3000');
   const host = process.env.HOST || 'localhost';
@@ -13,18 +13,6 @@ export async function setupStdioTransport() {
   // Add debug event listeners
   process.stdin.on('data', data => {
     debug(`Received stdin data: ${data.toString().trim()}`);
-
-    // Try to parse the incoming data to extract the request ID
-    try {
-      const parsed = JSON.parse(data.toString().trim());
-      if (parsed && parsed.id) {
-        global.currentRequestId = parsed.id;
-        debug(`Set currentRequestId to ${global.currentRequestId}`);
-      }
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
-      debug(`Failed to parse stdin data as JSON: ${error.message}`);
-    }
   });
 
   process.stdin.on('error', err => {
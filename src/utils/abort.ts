@@ -0,0 +1,121 @@
+import { getRequestContext, runWithRequestContext } from './requestContext';
+
+/**
+ * Error raised when a request is abandoned because the client cancelled it or
+ * closed its session
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request cancelled by the client') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Error raised when an upstream call runs longer than its tool's timeout
+ */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} timed out after ${timeoutMs} ms`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The error to raise for an aborted signal. Our own errors pass through; any
+ * other reason, such as the text of an MCP `notifications/cancelled`, means the
+ * client cancelled the request.
+ */
+export function abortError(signal: AbortSignal): Error {
+  const reason = signal.reason;
+  if (reason instanceof RequestCancelledError || reason instanceof RequestTimeoutError) {
+    return reason;
+  }
+  return new RequestCancelledError(
+    typeof reason === 'string' && reason ? `Request cancelled by the client: ${reason}` : undefined,
+  );
+}
+
+/**
+ * Combine signals into one that aborts, with the same reason, as soon as any of
+ * them does. Call `dispose` when done so long-lived signals do not keep listeners.
+ */
+export function linkSignals(signals: (AbortSignal | undefined)[]): {
+  signal: AbortSignal;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+  const cleanups: (() => void)[] = [];
+  const dispose = () => cleanups.splice(0).forEach(cleanup => cleanup());
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => {
+      controller.abort(signal.reason);
+      dispose();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    cleanups.push(() => signal.removeEventListener('abort', onAbort));
+  }
+  if (controller.signal.aborted) dispose();
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Run a function with a deadline. The current request's signal is replaced by
+ * one that also aborts after `timeoutMs`, so Connect Cloud calls made inside the
+ * function are abandoned with a RequestTimeoutError.
+ * @param timeoutMs Deadline in milliseconds; 0 or less runs without one
+ * @param label Name of the operation used in the error message
+ * @param fn The function to run
+ */
+export async function withTimeout<T>(
+  timeoutMs: number,
+  label: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (!(timeoutMs > 0)) {
+    return fn();
+  }
+  const parent = getRequestContext();
+  const timer = new AbortController();
+  const timeout = setTimeout(
+    () => timer.abort(new RequestTimeoutError(label, timeoutMs)),
+    timeoutMs,
+  );
+  const linked = linkSignals([parent?.signal, timer.signal]);
+  try {
+    return await runWithRequestContext({ requestId: null, ...parent, signal: linked.signal }, fn);
+  } finally {
+    clearTimeout(timeout);
+    linked.dispose();
+  }
+}
+
+/**
+ * Wait for a promise unless the signal aborts first. The work behind the
+ * promise keeps going, which suits work shared by several requests.
+ * @param promise The promise to wait for
+ * @param signal The waiting request's signal
+ * @throws The signal's abort error when it aborts before the promise settles
+ */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
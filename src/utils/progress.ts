@@ -0,0 +1,81 @@
+import { debug } from './logger';
+import { getRequestContext, RequestContext } from './requestContext';
+
+type ProgressSender = NonNullable<RequestContext['notifyProgress']>;
+
+/**
+ * The last progress value sent for each request. MCP requires progress to
+ * increase with every notification, so later stages continue from here.
+ */
+const lastProgress = new WeakMap<ProgressSender, number>();
+
+/**
+ * One stage of work reported to the client as progress
+ */
+export interface ProgressStage {
+  /**
+   * Mark steps as done and report them
+   * @param message What was just done, such as `Fetched 500 rows`
+   * @param steps Number of steps done; 1 when omitted
+   */
+  advance(message: string, steps?: number): void;
+}
+
+const NO_PROGRESS: ProgressStage = { advance: () => undefined };
+
+/**
+ * Start reporting progress for a stage of the current request. Does nothing
+ * unless the client sent a progress token. A request may run several stages one
+ * after the other; each one continues from where the previous one stopped.
+ * @param total Number of steps in the stage, when known
+ * @param message What the stage is about to do; only sent before anything else was reported
+ */
+export function startProgress(total?: number, message?: string): ProgressStage {
+  const send = getRequestContext()?.notifyProgress;
+  if (!send) {
+    return NO_PROGRESS;
+  }
+
+  const started = lastProgress.has(send);
+  const base = lastProgress.get(send) ?? 0;
+  let done = 0;
+  const report = (text: string) => {
+    const progress = base + done;
+    lastProgress.set(send, progress);
+    send(progress, total === undefined ? undefined : base + total, text).catch(err =>
+      debug(`Could not send progress notification: ${err.message}`),
+    );
+  };
+
+  if (message && !started) {
+    report(message);
+  }
+  return {
+    advance(text, steps = 1) {
+      done = total === undefined ? done + steps : Math.min(done + steps, total);
+      // Parallel stages of one request share the counter; drop updates that would go backwards
+      if (base + done > (lastProgress.get(send) ?? 0)) {
+        report(text);
+      }
+    },
+  };
+}
+
+/**
+ * Count a promise as one step of a stage when it settles
+ * @param stage The stage the promise belongs to
+ * @param label What the promise loads, such as `columns`
+ * @param promise The promise to track
+ */
+export function trackStep<T>(stage: ProgressStage, label: string, promise: Promise<T>): Promise<T> {
+  return promise.then(
+    value => {
+      stage.advance(`Loaded ${label}`);
+      return value;
+    },
+    err => {
+      stage.advance(`Could not load ${label}`);
+      throw err;
+    },
+  );
+}
@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Credentials used to authenticate against Connect Cloud for a single request
+ */
+export interface RequestCredentials {
+  username?: string;
+  pat?: string;
+}
+
+/**
+ * State that belongs to one incoming MCP or JSON-RPC call
+ */
+export interface RequestContext {
+  requestId: string | number | null;
+  sessionId?: string;
+  credentials?: RequestCredentials;
+  signal?: AbortSignal;
+  /**
+   * Ask the human on the client side for input. Only set when the client
+   * declared the elicitation capability.
+   */
+  elicit?: (params: ElicitRequest['params'], timeoutMs?: number) => Promise<ElicitResult>;
+  /**
+   * Send a progress notification for this request. Only set when the client
+   * asked for progress with a progress token.
+   */
+  notifyProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context. Everything awaited inside the
+ * function, including tool functions and API calls, sees this context.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the request currently being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Get the JSON-RPC ID of the request currently being handled
+ */
+export function currentRequestId(): string | number | null {
+  return storage.getStore()?.requestId ?? null;
+}
+
+/**
+ * Extract Connect Cloud credentials from a Basic `Authorization` header
+ * @param header The raw header value
+ * @returns The decoded credentials, or undefined when the header is absent or not Basic
+ */
+export function credentialsFromAuthorization(
+  header: string | string[] | undefined,
+): RequestCredentials | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || !value.startsWith('Basic ')) {
+    return undefined;
+  }
+  const decoded = Buffer.from(value.slice('Basic '.length), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator < 0) {
+    return undefined;
+  }
+  return { username: decoded.slice(0, separator), pat: decoded.slice(separator + 1) };
+}
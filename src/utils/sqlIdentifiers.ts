@@ -0,0 +1,6 @@
+/**
+ * Quote a name with brackets for use in a Connect Cloud query
+ */
+export function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, ']]')}]`;
+}